@@ -1,48 +1,127 @@
 /**
  * Web Worker for gacha simulation
- * 抽卡模拟 Worker - 每个Worker只执行一次模拟
+ * 抽卡模拟 Worker - 每条消息执行一块连续序号的模拟，在本地汇总为直方图后以 Uint32Array 转移回主线程
+ * 精确计算、多卡池模拟与分配评估同样在 Worker 中执行，避免长时间阻塞主线程
  */
 
 /**
- * 单次抽卡模拟 - 保底机制
- * @param basePity - 已累计未出6星的抽数
- * @returns 抽到6星所需的抽数
+ * 默认卡池规则 - 与 src/utils/bannerRuleset.ts 保持一致
+ */
+const DEFAULT_BANNER_RULESET = {
+  baseRate: 2,
+  softPityStart: 50,
+  rampStep: 2,
+  hardCap: 99,
+  rarityWeights: { 5: 8, 4: 50, 3: 40 }
+};
+
+/**
+ * 非UP池中未单独配置的干员合并后的名称
+ */
+const OFF_RATE_POOL_NAME = '池内其他6星';
+
+/**
+ * splitmix32 - 用于将种子扩展为生成器初始状态，与 src/utils/random.ts 保持一致
+ */
+function splitmix32(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x9e3779b9) | 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x21f0aaad);
+    z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+    return (z ^ (z >>> 15)) >>> 0;
+  };
+}
+
+/**
+ * 创建指定种子与流编号的随机数源 (sfc32) - 与 src/utils/random.ts 保持一致
+ * @param seed - 随机种子 (32位无符号整数)
+ * @param stream - 流编号，每次模拟使用自己的流
+ * @returns 返回 [0, 1) 均匀随机数的函数
  */
-function gatcha(basePity = 0) {
-  let xunfang = basePity; // 从已累计的保底开始
-  let currentProb = basePity < 50 ? 2 : 2 + (basePity - 50) * 2; // 根据保底计算初始概率
+function createRandom(seed, stream = 0) {
+  const mixer = splitmix32((splitmix32(seed)() + stream) >>> 0);
+  let a = mixer();
+  let b = mixer();
+  let c = mixer();
+  let d = mixer();
   
-  while (xunfang < 50) {
-    const chuhuo = Math.floor(Math.random() * 100) + 1;
-    xunfang += 1;
-    if (chuhuo <= currentProb) {
-      return xunfang - basePity; // 返回本次消耗的抽数
-    }
-  }
+  const next = () => {
+    d = (d + 1) | 0;
+    const t = (((a + b) | 0) + d) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
   
-  while (true) {
-    currentProb += 2;
-    const chuhuo = Math.floor(Math.random() * 100) + 1;
-    if (chuhuo <= currentProb) {
-      return xunfang - basePity; // 返回本次消耗的抽数
-    }
-    xunfang += 1;
+  // 丢弃前几个输出，使初始状态充分混合
+  for (let i = 0; i < 12; i++) next();
+  return next;
+}
+
+/**
+ * 计算下一抽的6星概率
+ * @param pity - 已累计未出6星的抽数
+ * @param rules - 卡池规则
+ * @returns 6星概率 (百分比)
+ */
+function getSixStarRate(pity, rules) {
+  if (pity + 1 >= rules.hardCap) {
+    return 100;
+  }
+  if (pity < rules.softPityStart) {
+    return rules.baseRate;
+  }
+  return Math.min(100, rules.baseRate + (pity - rules.softPityStart + 1) * rules.rampStep);
+}
+
+/**
+ * 在未出6星的前提下决定稀有度
+ * @param rules - 卡池规则
+ * @param random - [0, 1) 均匀随机数
+ * @returns 5/4/3星
+ */
+function rollNonSixStarRarity(rules, random) {
+  const { 5: five, 4: four, 3: three } = rules.rarityWeights;
+  let rest = random * (five + four + three);
+  if (rest < five) return 5;
+  rest -= five;
+  return rest < four ? 4 : 3;
+}
+
+/**
+ * 单抽稀有度判定 - 6星概率随保底提升，其余稀有度按权重分配剩余概率
+ * @param pity - 已累计未出6星的抽数
+ * @param rules - 卡池规则
+ * @param random - [0, 1) 均匀随机数
+ * @returns 本抽稀有度
+ */
+function rollRarity(pity, rules, random) {
+  const sixStarRate = getSixStarRate(pity, rules);
+  const roll = random * 100;
+  if (roll < sixStarRate) {
+    return 6;
   }
+  return rollNonSixStarRarity(rules, (roll - sixStarRate) / (100 - sixStarRate));
 }
 
 /**
  * 权重随机选择
  * @param items - 物品数组
  * @param weights - 权重数组
+ * @param random - 随机数源
  * @returns 选中的物品
  */
-function weightedChoice(items, weights) {
+function weightedChoice(items, weights, random) {
   const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
-  let random = Math.random() * totalWeight;
+  let rest = random() * totalWeight;
   
   for (let i = 0; i < items.length; i++) {
-    random -= weights[i];
-    if (random <= 0) {
+    rest -= weights[i];
+    if (rest <= 0) {
       return items[i];
     }
   }
@@ -50,115 +129,1009 @@ function weightedChoice(items, weights) {
   return items[items.length - 1];
 }
 
+/**
+ * 根据UP规则将干员划分为UP组与非UP组 - 与 src/utils/bannerRuleset.ts 保持一致
+ * @param operatorConfig - 干员配置
+ * @param rules - 卡池规则
+ * @returns 干员分组
+ */
+function resolveOperatorPools(operatorConfig, rules) {
+  const names = Object.keys(operatorConfig);
+  
+  if (!rules.rateUp) {
+    return {
+      upShare: 100,
+      upOperators: names,
+      upWeights: names.map(name => operatorConfig[name].weight),
+      offRateOperators: [],
+      offRateWeights: []
+    };
+  }
+  
+  const upOperators = names.filter(name => operatorConfig[name].up);
+  const offRateOperators = names.filter(name => !operatorConfig[name].up);
+  if (upOperators.length === 0) {
+    throw new Error('启用UP规则时至少需要标记一名UP干员');
+  }
+  if (offRateOperators.length > rules.rateUp.offRatePoolSize) {
+    throw new Error(`非UP干员数量 (${offRateOperators.length}) 超过了非UP池大小 (${rules.rateUp.offRatePoolSize})`);
+  }
+  
+  // 非UP池内每名干员等概率，未单独配置的干员合并为一项
+  const offRateWeights = offRateOperators.map(() => 1);
+  const remainingPoolSize = rules.rateUp.offRatePoolSize - offRateOperators.length;
+  if (remainingPoolSize > 0) {
+    offRateOperators.push(OFF_RATE_POOL_NAME);
+    offRateWeights.push(remainingPoolSize);
+  }
+  
+  return {
+    upShare: offRateOperators.length > 0 ? rules.rateUp.upShare : 100,
+    upOperators,
+    upWeights: upOperators.map(name => operatorConfig[name].weight),
+    offRateOperators,
+    offRateWeights
+  };
+}
+
+/**
+ * 选择寻访参数兑换的干员 - 与 src/utils/bannerRuleset.ts 保持一致
+ * @param operatorConfig - 干员配置
+ * @param statistic - 当前各干员获得数量
+ * @param rules - 卡池规则
+ * @returns 兑换的干员名称，没有需要兑换的干员时返回 null
+ */
+function pickSparkTarget(operatorConfig, statistic, rules) {
+  for (const name of Object.keys(operatorConfig)) {
+    const { target, up } = operatorConfig[name];
+    if (target > 0 && statistic[name] < target && (!rules.rateUp || up)) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * 获取首次UP保底可能给出的干员 - 与 src/utils/bannerRuleset.ts 保持一致
+ * @param operatorConfig - 干员配置
+ * @returns UP干员及其权重
+ */
+function getGuaranteedOperators(operatorConfig) {
+  const operators = Object.keys(operatorConfig).filter(name => operatorConfig[name].up);
+  if (operators.length === 0) {
+    throw new Error('启用首次UP保底时至少需要标记一名UP干员');
+  }
+  return { operators, weights: operators.map(name => operatorConfig[name].weight) };
+}
+
+/**
+ * 由干员配置生成默认条件：所有目标数量大于0的干员都达到目标 - 与 src/utils/targetExpression.ts 保持一致
+ * @param operatorConfig - 干员配置
+ * @returns 目标条件
+ */
+function buildDefaultTargetExpression(operatorConfig) {
+  return {
+    type: 'all',
+    children: Object.keys(operatorConfig)
+      .filter(name => operatorConfig[name].target > 0)
+      .map(name => ({ type: 'operator', name, count: operatorConfig[name].target }))
+  };
+}
+
+/**
+ * 判断当前获得数量是否满足条件 - 与 src/utils/targetExpression.ts 保持一致
+ * @param expression - 目标条件
+ * @param statistic - 各干员获得数量
+ * @returns 是否满足
+ */
+function evaluateTargetExpression(expression, statistic) {
+  switch (expression.type) {
+    case 'operator':
+      return (statistic[expression.name] || 0) >= expression.count;
+    case 'all':
+      return expression.children.every(child => evaluateTargetExpression(child, statistic));
+    case 'any':
+      return expression.children.some(child => evaluateTargetExpression(child, statistic));
+    case 'atLeast': {
+      let satisfied = 0;
+      for (const child of expression.children) {
+        if (evaluateTargetExpression(child, statistic) && ++satisfied >= expression.k) {
+          return true;
+        }
+      }
+      return false;
+    }
+    default:
+      throw new Error(`未知的目标条件类型: ${expression.type}`);
+  }
+}
+
+/**
+ * 按条件改写干员配置中的目标数量 - 与 src/utils/targetExpression.ts 保持一致
+ * @param operatorConfig - 干员配置
+ * @param expression - 目标条件
+ * @returns 改写后的干员配置，条件中未出现的干员目标数量为0
+ */
+function applyTargetExpression(operatorConfig, expression) {
+  const targets = {};
+  const visit = (node) => {
+    if (node.type === 'operator') {
+      targets[node.name] = Math.max(targets[node.name] || 0, node.count);
+    } else {
+      node.children.forEach(visit);
+    }
+  };
+  visit(expression);
+  
+  const applied = {};
+  Object.keys(operatorConfig).forEach(name => {
+    applied[name] = { ...operatorConfig[name], target: targets[name] || 0 };
+  });
+  return applied;
+}
+
+/**
+ * 两阶段干员选择 - 先判定是否为UP，再在组内按权重选择
+ * @param pools - 干员分组
+ * @param random - 随机数源
+ * @returns 选中的干员
+ */
+function selectOperator(pools, random) {
+  if (random() * 100 < pools.upShare) {
+    return weightedChoice(pools.upOperators, pools.upWeights, random);
+  }
+  return weightedChoice(pools.offRateOperators, pools.offRateWeights, random);
+}
+
+/**
+ * 获取下一个保底所在的抽数 - 与 src/utils/pullStrategy.ts 保持一致
+ * @param rules - 卡池规则
+ * @returns 抽数，首次UP保底与寻访参数兑换均未启用时返回 null
+ */
+function getGuaranteeDraws(rules) {
+  const candidates = [rules.guarantee && rules.guarantee.pullLimit, rules.spark && rules.spark.threshold]
+    .filter(draws => draws !== undefined);
+  return candidates.length > 0 ? Math.min(...candidates) : null;
+}
+
+/**
+ * 判定是否按策略停止抽卡 - 与 src/utils/pullStrategy.ts 保持一致
+ * @param strategy - 抽卡策略
+ * @param state - 当前状态 { total, sixStars, targetObtained }
+ * @param rules - 卡池规则
+ * @returns 是否停止
+ */
+function shouldStopPulling(strategy, state, rules) {
+  switch (strategy.type) {
+    case 'stopLoss':
+      return state.total >= strategy.draws && !state.targetObtained;
+    case 'nextGuarantee': {
+      const guaranteeDraws = getGuaranteeDraws(rules);
+      return guaranteeDraws !== null ? state.total >= guaranteeDraws : state.sixStars > 0;
+    }
+    case 'firstSixStar':
+      return state.sixStars > 0;
+    default:
+      return false;
+  }
+}
+
 /**
  * 抽卡统计函数
  * @param operatorConfig - 干员配置
  * @param basePity - 已累计未出6星的抽数
+ * @param rules - 卡池规则
+ * @param random - 随机数源
+ * @param goal - 目标条件 (可选)，未指定时所有目标干员都需达到目标
+ * @param budget - 抽数预算 (可选)，用尽时即使未完成也停止
+ * @param strategy - 抽卡策略 (可选)，每抽之前判定是否提前停止
  * @returns 模拟结果
  */
-function chouShuTongJi(operatorConfig, basePity = 0) {
+function chouShuTongJi(operatorConfig, basePity = 0, rules = DEFAULT_BANNER_RULESET, random = Math.random, goal, budget = Infinity, strategy) {
   // 数据验证
   if (!operatorConfig || Object.keys(operatorConfig).length === 0) {
     throw new Error('干员配置不能为空');
   }
   
-  const operators = Object.keys(operatorConfig);
-  const weights = operators.map(op => operatorConfig[op].weight);
+  // 目标数量由条件决定
+  if (goal) {
+    operatorConfig = applyTargetExpression(operatorConfig, goal);
+  } else {
+    goal = buildDefaultTargetExpression(operatorConfig);
+  }
+  
+  const pools = resolveOperatorPools(operatorConfig, rules);
+  const guaranteed = rules.guarantee ? getGuaranteedOperators(operatorConfig) : null;
   
   let total = 0;
   let currentPity = basePity;
+  let sparkPoints = 0; // 寻访参数
+  let sparkRedemptions = 0;
+  let upObtained = false; // 是否已获得UP干员
+  let guaranteeTriggered = false;
+  let targetObtained = false; // 是否已获得任意目标干员，用于止损策略
   const statistic = {};
+  const targetDraws = {}; // 各目标干员达到目标时的抽数
+  const rarityCounts = { 3: 0, 4: 0, 5: 0, 6: 0 };
   
-  // 初始化统计
-  operators.forEach(op => {
+  // 初始化统计 (包含非UP池中合并的干员)
+  [...pools.upOperators, ...pools.offRateOperators].forEach(op => {
     statistic[op] = 0;
   });
   
-  // 检查退出条件
-  const checkCompletion = () => {
-    return operators.every(op => 
-      operatorConfig[op].target === 0 || statistic[op] >= operatorConfig[op].target
-    );
+  // 记录干员恰好达到目标时的抽数
+  const recordTarget = (op) => {
+    const target = operatorConfig[op] ? operatorConfig[op].target : 0;
+    targetObtained = targetObtained || target > 0;
+    if (target > 0 && statistic[op] === target) {
+      targetDraws[op] = total;
+    }
   };
   
-  while (!checkCompletion()) {
-    const drawsThisRound = gatcha(currentPity);
-    total += drawsThisRound;
-    currentPity = 0; // 重置保底
+  // 检查退出条件
+  const checkCompletion = () => evaluateTargetExpression(goal, statistic);
+  
+  // 按策略判定是否提前停止
+  const strategyStops = () =>
+    !!strategy && shouldStopPulling(strategy, { total, sixStars: rarityCounts[6], targetObtained }, rules);
+  
+  // 逐抽模拟，兑换可能发生在两次6星之间
+  let completed = checkCompletion();
+  while (!completed && total < budget && !strategyStops()) {
+    // 首次UP保底：前N抽未获得UP干员时第N抽必定为UP
+    const forceUp = guaranteed !== null && !upObtained && total + 1 === rules.guarantee.pullLimit;
+    const rarity = forceUp ? 6 : rollRarity(currentPity, rules, random());
+    total += 1;
+    rarityCounts[rarity] += 1;
     
-    const selectedOperator = weightedChoice(operators, weights);
-    statistic[selectedOperator] += 1;
+    if (rarity === 6) {
+      currentPity = 0; // 重置保底
+      const selectedOperator = forceUp
+        ? weightedChoice(guaranteed.operators, guaranteed.weights, random)
+        : selectOperator(pools, random);
+      statistic[selectedOperator] += 1;
+      recordTarget(selectedOperator);
+      guaranteeTriggered = guaranteeTriggered || forceUp;
+      upObtained = upObtained || !!(operatorConfig[selectedOperator] && operatorConfig[selectedOperator].up);
+      completed = checkCompletion();
+    } else {
+      currentPity += 1;
+    }
     
-    // 不再保存详细信息以节省内存
-    // details.push({
-    //   round: details.length + 1,
-    //   draws: drawsThisRound,
-    //   operator: selectedOperator,
-    //   totalDraws: total
-    // });
+    // 寻访参数累计到阈值时兑换尚未达成目标的干员
+    if (rules.spark && !completed) {
+      sparkPoints += 1;
+      if (sparkPoints >= rules.spark.threshold && sparkRedemptions < rules.spark.maxRedemptions) {
+        const sparkTarget = pickSparkTarget(operatorConfig, statistic, rules);
+        if (sparkTarget) {
+          statistic[sparkTarget] += 1;
+          recordTarget(sparkTarget);
+          upObtained = upObtained || !!operatorConfig[sparkTarget].up;
+          sparkPoints -= rules.spark.threshold;
+          sparkRedemptions += 1;
+          completed = checkCompletion();
+        }
+      }
+    }
   }
   
   const result = { 
     total, 
     statistic, 
+    rarityCounts,
+    sparkRedemptions,
+    guaranteeTriggered,
+    targetDraws,
+    completed,
+    pity: currentPity, // 结束时已累计未出6星的抽数
     // 不再返回details数组以节省内存
     details: [] 
   };
   
   // 清理局部变量
-  operators.length = 0;
-  weights.length = 0;
   currentPity = null;
   total = null;
   
   return result;
 }
 
-// Worker 消息处理 - 每个Worker只执行一次模拟
+/**
+ * 直方图计数 - 按需扩容的 Uint32Array
+ * @param histogram - 当前直方图
+ * @param value - 取值 (非负整数)
+ * @returns 计数后的直方图 (扩容时为新数组)
+ */
+function addToHistogram(histogram, value) {
+  if (value >= histogram.length) {
+    const grown = new Uint32Array(Math.max(value + 1, histogram.length * 2));
+    grown.set(histogram);
+    histogram = grown;
+  }
+  histogram[value]++;
+  return histogram;
+}
+
+/**
+ * 实测少量模拟的耗时与最大抽数，用于运行估算 - 第 i 次模拟使用种子0的流 i
+ * @returns 每次模拟的耗时 (秒) 与实测中的最大抽数，与 src/utils/workerManager.ts 中 CalibrationResult 的结构保持一致
+ */
+function calibrate(operatorConfig, basePity, rules, goal, budget, strategy, simulations) {
+  let maxDraws = 0;
+  const start = performance.now();
+  for (let i = 0; i < simulations; i++) {
+    const result = chouShuTongJi(operatorConfig, basePity, rules, createRandom(0, i), goal, budget ?? Infinity, strategy);
+    maxDraws = Math.max(maxDraws, result.total);
+  }
+  return { secondsPerSimulation: (performance.now() - start) / 1000 / simulations, maxDraws };
+}
+
+/**
+ * 执行一块模拟并在本地汇总 - 与 src/utils/workerManager.ts 中 ChunkResult 的结构保持一致
+ * 第 i 个模拟的随机数流由种子与序号 chunkStart + i 决定，与执行的Worker及分块方式无关
+ */
+function runChunk(operatorConfig, basePity, rules, seed, goal, budget, strategy, chunkStart, chunkSize) {
+  let drawsHistogram = new Uint32Array(rules.hardCap + 1);
+  const operatorNames = [];
+  const operatorIndex = {};
+  let characterCounts = new Uint32Array(0);
+  const copyHistograms = [];
+  let offRateCopyHistogram = rules.rateUp ? new Uint32Array(8) : null;
+  const targetNames = [];
+  const targetIndex = {};
+  const targetHistograms = [];
+  const rarityCounts = new Uint32Array(4);
+  const budgetOutcomes = budget !== undefined ? {} : null;
+  let simulationsUsingSpark = 0;
+  let sparkRedemptions = 0;
+  let guaranteedSimulations = 0;
+  let completedGoalSimulations = 0;
+  let failedDrawsSum = 0;
+
+  for (let i = 0; i < chunkSize; i++) {
+    const random = seed !== undefined ? createRandom(seed, chunkStart + i) : Math.random;
+    const result = chouShuTongJi(operatorConfig, basePity, rules, random, goal, budget ?? Infinity, strategy);
+
+    drawsHistogram = addToHistogram(drawsHistogram, result.total);
+
+    // 干员获得数量与非UP 6星合计
+    let offRateCopies = 0;
+    Object.keys(result.statistic).forEach(name => {
+      if (operatorIndex[name] === undefined) {
+        operatorIndex[name] = operatorNames.length;
+        operatorNames.push(name);
+        copyHistograms.push(new Uint32Array(8));
+        const grown = new Uint32Array(operatorNames.length);
+        grown.set(characterCounts);
+        characterCounts = grown;
+      }
+      const index = operatorIndex[name];
+      const copies = result.statistic[name];
+      characterCounts[index] += copies;
+      copyHistograms[index] = addToHistogram(copyHistograms[index], copies);
+      if (!(operatorConfig[name] && operatorConfig[name].up)) {
+        offRateCopies += copies;
+      }
+    });
+    if (offRateCopyHistogram) {
+      offRateCopyHistogram = addToHistogram(offRateCopyHistogram, offRateCopies);
+    }
+
+    // 单干员达成目标的抽数
+    Object.keys(result.targetDraws).forEach(name => {
+      if (targetIndex[name] === undefined) {
+        targetIndex[name] = targetNames.length;
+        targetNames.push(name);
+        targetHistograms.push(new Uint32Array(rules.hardCap + 1));
+      }
+      const index = targetIndex[name];
+      targetHistograms[index] = addToHistogram(targetHistograms[index], result.targetDraws[name]);
+    });
+
+    [3, 4, 5, 6].forEach((rarity, index) => {
+      rarityCounts[index] += result.rarityCounts[rarity];
+    });
+
+    if (result.sparkRedemptions > 0) {
+      simulationsUsingSpark++;
+      sparkRedemptions += result.sparkRedemptions;
+    }
+    if (result.guaranteeTriggered) {
+      guaranteedSimulations++;
+    }
+    if (result.completed) {
+      completedGoalSimulations++;
+    } else {
+      failedDrawsSum += result.total;
+    }
+
+    // 预算模式下记录达成目标的干员组合
+    if (budgetOutcomes) {
+      const met = Object.keys(operatorConfig)
+        .filter(name => operatorConfig[name].target > 0 && (result.statistic[name] ?? 0) >= operatorConfig[name].target);
+      const key = JSON.stringify(met);
+      budgetOutcomes[key] = (budgetOutcomes[key] || 0) + 1;
+    }
+  }
+
+  return {
+    simulations: chunkSize,
+    drawsHistogram,
+    operatorNames,
+    characterCounts,
+    copyHistograms,
+    offRateCopyHistogram,
+    targetNames,
+    targetHistograms,
+    rarityCounts,
+    simulationsUsingSpark,
+    sparkRedemptions,
+    guaranteedSimulations,
+    completedGoalSimulations,
+    failedDrawsSum,
+    budgetOutcomes
+  };
+}
+
+/**
+ * 模拟一次多卡池规划 - 所有卡池共用同一随机数源，保底按继承组传递
+ * 每个卡池的实际预算为其自身预算与共用预算剩余部分中较小的一个，为0时不抽取
+ * @param campaign - 多卡池规划
+ * @param random - 随机数源
+ * @returns 各卡池的结果
+ */
+function simulateCampaign(campaign, random) {
+  const pityByGroup = { ...campaign.initialPity };
+  let remaining = campaign.totalBudget !== undefined ? campaign.totalBudget : Infinity;
+
+  return campaign.banners.map(banner => {
+    const group = banner.rules.carry ? banner.rules.carry.group : undefined;
+    const startPity = group !== undefined ? pityByGroup[group] || 0 : 0;
+    const result = chouShuTongJi(
+      banner.operatorConfig,
+      startPity,
+      banner.rules,
+      random,
+      banner.goal,
+      Math.min(banner.budget !== undefined ? banner.budget : Infinity, remaining)
+    );
+    remaining -= result.total;
+    if (group !== undefined) {
+      pityByGroup[group] = result.pity;
+    }
+    return {
+      draws: result.total,
+      completed: result.completed,
+      startPity,
+      pity: result.pity,
+      statistic: result.statistic
+    };
+  });
+}
+
+/**
+ * 执行一块多卡池模拟并在本地汇总 - 与 src/utils/campaign.ts 中 CampaignChunkResult 的结构保持一致
+ * @returns 本块的汇总结果
+ */
+function runCampaignChunk(campaign, seed, chunkStart, chunkSize) {
+  const bannerCount = campaign.banners.length;
+  const completedCounts = new Array(bannerCount).fill(0);
+  const drawsSums = new Array(bannerCount).fill(0);
+  const startPitySums = new Array(bannerCount).fill(0);
+  // 剩余保底不会超过硬保底抽数
+  const endPityCounts = campaign.banners.map(banner => new Array(banner.rules.hardCap).fill(0));
+  let allCompleted = 0;
+
+  for (let i = chunkStart; i < chunkStart + chunkSize; i++) {
+    const results = simulateCampaign(campaign, createRandom(seed, i));
+    results.forEach((result, index) => {
+      completedCounts[index] += result.completed ? 1 : 0;
+      drawsSums[index] += result.draws;
+      startPitySums[index] += result.startPity;
+      endPityCounts[index][result.pity] += 1;
+    });
+    if (results.every(result => result.completed)) {
+      allCompleted += 1;
+    }
+  }
+
+  return { simulations: chunkSize, completedCounts, drawsSums, startPitySums, endPityCounts, allCompleted };
+}
+
+/**
+ * 获取条件中每名干员要求的最大数量 - 与 src/utils/targetExpression.ts 保持一致
+ * @param expression - 目标条件
+ * @returns 干员名称 -> 要求数量
+ */
+function getExpressionTargets(expression) {
+  const targets = {};
+  const visit = (node) => {
+    if (node.type === 'operator') {
+      targets[node.name] = Math.max(targets[node.name] || 0, node.count);
+    } else {
+      node.children.forEach(visit);
+    }
+  };
+  visit(expression);
+  return targets;
+}
+
+/**
+ * 获取卡池中各干员的目标数量 - 与 src/utils/allocation.ts 保持一致
+ */
+function getBannerTargets(banner) {
+  if (banner.goal) {
+    return getExpressionTargets(banner.goal);
+  }
+  const targets = {};
+  Object.keys(banner.operatorConfig).forEach(name => {
+    targets[name] = banner.operatorConfig[name].target;
+  });
+  return targets;
+}
+
+/**
+ * 按策略生成多卡池规划 - 跳过的卡池预算为0，抽到完成的卡池只受总预算限制
+ */
+function applyPolicies(banners, policies, totalBudget, initialPity) {
+  return {
+    banners: banners.map((banner, index) => {
+      const policy = policies[index];
+      const budget = policy.type === 'skip' ? 0 : policy.type === 'upTo' ? policy.draws : undefined;
+      return { ...banner, budget };
+    }),
+    initialPity,
+    totalBudget
+  };
+}
+
+/**
+ * 评估一组分配策略 - 策略语义见 src/utils/allocation.ts 中 AllocationPolicy
+ * 所有策略组合使用相同的随机数流 (公共随机数)，策略之间的差异不受抽样噪声主导
+ * @returns 评估结果，与 src/utils/allocation.ts 中 AllocationResult 的结构保持一致
+ */
+function evaluateAllocation(banners, policies, totalBudget, n, seed, initialPity) {
+  const campaign = applyPolicies(banners, policies, totalBudget, initialPity);
+  const targets = banners.map(getBannerTargets);
+  const completedCounts = new Array(banners.length).fill(0);
+  let valueSum = 0;
+  let mustHaveCount = 0;
+  let drawsSum = 0;
+
+  for (let i = 0; i < n; i++) {
+    const results = simulateCampaign(campaign, createRandom(seed, i));
+    let mustHaveMet = true;
+    results.forEach((result, index) => {
+      const banner = banners[index];
+      const reached = name => (targets[index][name] || 0) > 0 && (result.statistic[name] || 0) >= targets[index][name];
+      // 跳过的卡池没有抽取，不计入完成
+      if (result.completed && policies[index].type !== 'skip') {
+        completedCounts[index] += 1;
+      }
+      Object.entries(banner.values).forEach(([name, value]) => {
+        if (reached(name)) {
+          valueSum += value;
+        }
+      });
+      mustHaveMet = mustHaveMet && banner.mustHave.every(reached);
+      drawsSum += result.draws;
+    });
+    if (mustHaveMet) {
+      mustHaveCount += 1;
+    }
+  }
+
+  return {
+    policies,
+    expectedValue: valueSum / n,
+    mustHaveProbability: (mustHaveCount / n) * 100,
+    bannerSuccessRates: completedCounts.map(count => (count / n) * 100),
+    averageDraws: drawsSum / n
+  };
+}
+
+// 精确计算的状态数上限与状态转移计算量上限，超过时返回 null 回退到模拟
+const MAX_EXACT_STATES = 200000;
+const MAX_EXACT_WORK = 5e8;
+
+// 精确计算中剩余未完成概率低于此值时停止推进
+const TAIL_TOLERANCE = 1e-9;
+
+/**
+ * 计算各干员在出6星时的最终概率 - 与 src/utils/bannerRuleset.ts 保持一致
+ * @param pools - 干员分组
+ * @returns 干员名称 -> 概率
+ */
+function getOperatorProbabilities(pools) {
+  const probabilities = {};
+  const upTotal = pools.upWeights.reduce((sum, weight) => sum + weight, 0);
+  const offRateTotal = pools.offRateWeights.reduce((sum, weight) => sum + weight, 0);
+
+  pools.upOperators.forEach((name, i) => {
+    probabilities[name] = (pools.upShare / 100) * (pools.upWeights[i] / upTotal);
+  });
+  pools.offRateOperators.forEach((name, i) => {
+    probabilities[name] = (1 - pools.upShare / 100) * (pools.offRateWeights[i] / offRateTotal);
+  });
+
+  return probabilities;
+}
+
+/**
+ * 将干员按是否为目标拆分为6星结果，非目标干员按是否UP合并
+ */
+function buildOutcomes(probabilities, operatorConfig, targetNames) {
+  const outcomes = [];
+  let otherUp = 0;
+  let otherOffRate = 0;
+
+  Object.keys(probabilities).forEach(name => {
+    const targetIndex = targetNames.indexOf(name);
+    const up = !!(operatorConfig[name] && operatorConfig[name].up);
+    if (targetIndex >= 0) {
+      outcomes.push({ probability: probabilities[name], targetIndex, up });
+    } else if (up) {
+      otherUp += probabilities[name];
+    } else {
+      otherOffRate += probabilities[name];
+    }
+  });
+
+  if (otherUp > 0) outcomes.push({ probability: otherUp, targetIndex: -1, up: true });
+  if (otherOffRate > 0) outcomes.push({ probability: otherOffRate, targetIndex: -1, up: false });
+  return outcomes;
+}
+
+/**
+ * 计算完成目标所需抽数的精确分布 - 结果结构与 src/utils/exactSolver.ts 中 ExactDistribution 保持一致
+ * @param operatorConfig - 干员配置 (顺序决定寻访参数兑换的优先级)
+ * @param basePity - 已累计未出6星的抽数
+ * @param rules - 卡池规则
+ * @param goal - 目标条件
+ * @param budget - 抽数预算，用尽时未完成的概率计入预算抽数处
+ * @returns 精确分布，状态空间过大时返回 null
+ */
+function computeExactDistribution(operatorConfig, basePity, rules, goal, budget = Infinity) {
+  const probabilities = getOperatorProbabilities(resolveOperatorPools(operatorConfig, rules));
+  const targetNames = Object.keys(operatorConfig).filter(name => operatorConfig[name].target > 0);
+  const targets = targetNames.map(name => operatorConfig[name].target);
+
+  // 目标计数按混合进制编码
+  const strides = [];
+  let countStates = 1;
+  targets.forEach(target => {
+    strides.push(countStates);
+    countStates *= target + 1;
+  });
+
+  const pityStates = rules.hardCap;
+  const guaranteeStates = rules.guarantee ? 2 : 1;
+  const sparkStates = rules.spark ? rules.spark.maxRedemptions + 1 : 1;
+  const totalStates = pityStates * countStates * guaranteeStates * sparkStates;
+  if (totalStates > MAX_EXACT_STATES) {
+    return null;
+  }
+
+  const expectedCounts = {};
+  Object.keys(probabilities).forEach(name => {
+    expectedCounts[name] = 0;
+  });
+  const drawsProbability = {};
+  const targetProbability = {};
+  targetNames.forEach(name => {
+    targetProbability[name] = {};
+  });
+
+  const getCount = (countIndex, targetIndex) =>
+    Math.floor(countIndex / strides[targetIndex]) % (targets[targetIndex] + 1);
+
+  // 预计算每个计数编码是否满足目标条件
+  const complete = new Uint8Array(countStates);
+  for (let countIndex = 0; countIndex < countStates; countIndex++) {
+    const statistic = {};
+    targetNames.forEach((name, i) => {
+      statistic[name] = getCount(countIndex, i);
+    });
+    complete[countIndex] = evaluateTargetExpression(goal, statistic) ? 1 : 0;
+  }
+
+  // 各计数编码下达到目标的干员组合，与模拟统计使用相同的键
+  const metKey = countIndex =>
+    JSON.stringify(targetNames.filter((_, i) => getCount(countIndex, i) === targets[i]));
+
+  // 无需抽卡即已完成
+  if (complete[0]) {
+    drawsProbability[0] = 1;
+    return {
+      drawsProbability,
+      targetProbability,
+      expectedCounts,
+      expectedRarityCounts: { 3: 0, 4: 0, 5: 0, 6: 0 },
+      sparkUsageProbability: 0,
+      expectedSparkRedemptions: 0,
+      guaranteeProbability: 0,
+      completionProbability: 1,
+      budgetOutcomes: Number.isFinite(budget) ? { [metKey(0)]: 1 } : undefined
+    };
+  }
+
+  const outcomes = buildOutcomes(probabilities, operatorConfig, targetNames);
+  const guaranteed = rules.guarantee ? getGuaranteedOperators(operatorConfig) : null;
+  const guaranteedTotalWeight = guaranteed ? guaranteed.weights.reduce((sum, weight) => sum + weight, 0) : 0;
+  const guaranteedOutcomes = guaranteed
+    ? guaranteed.operators.map((name, i) => ({
+      probability: guaranteed.weights[i] / guaranteedTotalWeight,
+      targetIndex: targetNames.indexOf(name),
+      up: true
+    }))
+    : [];
+
+  const sixStarRates = new Float64Array(pityStates);
+  for (let pity = 0; pity < pityStates; pity++) {
+    sixStarRates[pity] = getSixStarRate(pity, rules) / 100;
+  }
+
+  // 预计算每个计数编码下增加某个目标后的编码，以及寻访参数兑换的干员
+  const increment = (countIndex, targetIndex) => {
+    if (targetIndex < 0) return countIndex;
+    return getCount(countIndex, targetIndex) < targets[targetIndex] ? countIndex + strides[targetIndex] : countIndex;
+  };
+  const sparkTargets = new Int32Array(countStates).fill(-1);
+  if (rules.spark) {
+    for (let countIndex = 0; countIndex < countStates; countIndex++) {
+      // 与 pickSparkTarget 一致：按配置顺序选择第一个未达成目标的干员
+      sparkTargets[countIndex] = targetNames.findIndex((name, i) =>
+        increment(countIndex, i) !== countIndex && (!rules.rateUp || !!operatorConfig[name].up)
+      );
+    }
+  }
+
+  const stateIndex = (pity, countIndex, upObtained, redemptions) =>
+    ((redemptions * guaranteeStates + upObtained) * countStates + countIndex) * pityStates + pity;
+
+  let current = new Float64Array(totalStates);
+  let next = new Float64Array(totalStates);
+  current[stateIndex(Math.min(basePity, pityStates - 1), 0, 0, 0)] = 1;
+
+  let remaining = 1;
+  let work = 0;
+  let freeSixStarMass = 0; // 按概率出的6星
+  let nonSixStarMass = 0;
+  let guaranteeProbability = 0;
+  let sparkUsageProbability = 0;
+  let expectedSparkRedemptions = 0;
+  const outcomeMass = new Float64Array(countStates); // 结束时各计数编码的概率
+
+  for (let draws = 1; remaining > TAIL_TOLERANCE && draws <= budget; draws++) {
+    next.fill(0);
+    let completedMass = 0;
+
+    // 一抽结束后的状态：先判定寻访参数兑换，再记录达到目标的干员并判定是否完成
+    const deposit = (mass, previousIndex, pity, countIndex, upObtained, redemptions) => {
+      if (!complete[countIndex] && rules.spark && redemptions < rules.spark.maxRedemptions
+        && draws - rules.spark.threshold * redemptions >= rules.spark.threshold) {
+        const sparkTarget = sparkTargets[countIndex];
+        if (sparkTarget >= 0) {
+          const name = targetNames[sparkTarget];
+          expectedCounts[name] += mass;
+          expectedSparkRedemptions += mass;
+          if (redemptions === 0) sparkUsageProbability += mass;
+          countIndex = increment(countIndex, sparkTarget);
+          upObtained = guaranteeStates > 1 && (upObtained || operatorConfig[name].up) ? 1 : 0;
+          redemptions++;
+        }
+      }
+      if (countIndex !== previousIndex) {
+        targets.forEach((target, i) => {
+          if (getCount(countIndex, i) === target && getCount(previousIndex, i) < target) {
+            const reached = targetProbability[targetNames[i]];
+            reached[draws] = (reached[draws] || 0) + mass;
+          }
+        });
+      }
+      if (complete[countIndex]) {
+        completedMass += mass;
+        outcomeMass[countIndex] += mass;
+      } else {
+        next[stateIndex(pity, countIndex, upObtained, redemptions)] += mass;
+      }
+    };
+
+    for (let redemptions = 0; redemptions < sparkStates; redemptions++) {
+      for (let upObtained = 0; upObtained < guaranteeStates; upObtained++) {
+        // 首次UP保底：前N抽未获得UP干员时第N抽必定为UP
+        const forceUp = upObtained === 0 && rules.guarantee && draws === rules.guarantee.pullLimit;
+        for (let countIndex = 0; countIndex < countStates; countIndex++) {
+          if (complete[countIndex]) continue;
+          for (let pity = 0; pity < pityStates; pity++) {
+            const mass = current[stateIndex(pity, countIndex, upObtained, redemptions)];
+            if (mass === 0) continue;
+
+            if (forceUp) {
+              guaranteeProbability += mass;
+              guaranteedOutcomes.forEach((outcome, i) => {
+                expectedCounts[guaranteed.operators[i]] += mass * outcome.probability;
+                deposit(mass * outcome.probability, countIndex, 0, increment(countIndex, outcome.targetIndex), 1, redemptions);
+              });
+              work += guaranteedOutcomes.length;
+              continue;
+            }
+
+            const rate = sixStarRates[pity];
+            if (rate < 1) {
+              nonSixStarMass += mass * (1 - rate);
+              deposit(mass * (1 - rate), countIndex, pity + 1, countIndex, upObtained, redemptions);
+            }
+            if (rate > 0) {
+              freeSixStarMass += mass * rate;
+              for (const outcome of outcomes) {
+                const nextUpObtained = guaranteeStates > 1 && (upObtained || outcome.up) ? 1 : 0;
+                deposit(mass * rate * outcome.probability, countIndex, 0, increment(countIndex, outcome.targetIndex), nextUpObtained, redemptions);
+              }
+            }
+            work += outcomes.length + 1;
+          }
+        }
+      }
+    }
+
+    if (completedMass > 0) {
+      drawsProbability[draws] = completedMass;
+    }
+    remaining -= completedMass;
+    [current, next] = [next, current];
+
+    if (work > MAX_EXACT_WORK) {
+      return null;
+    }
+  }
+
+  // 预算用尽时仍未完成的概率计入预算抽数处
+  let budgetOutcomes;
+  if (Number.isFinite(budget)) {
+    if (remaining > TAIL_TOLERANCE) {
+      drawsProbability[budget] = (drawsProbability[budget] || 0) + remaining;
+    }
+    current.forEach((mass, index) => {
+      if (mass > 0) {
+        outcomeMass[Math.floor(index / pityStates) % countStates] += mass;
+      }
+    });
+    budgetOutcomes = {};
+    outcomeMass.forEach((mass, countIndex) => {
+      if (mass > 0) {
+        const key = metKey(countIndex);
+        budgetOutcomes[key] = (budgetOutcomes[key] || 0) + mass;
+      }
+    });
+  }
+
+  // 按概率出的6星按最终概率分配给各干员 (目标干员的计数不截断，与模拟统计一致)
+  Object.keys(probabilities).forEach(name => {
+    expectedCounts[name] += freeSixStarMass * probabilities[name];
+  });
+
+  const { 5: five, 4: four, 3: three } = rules.rarityWeights;
+  const nonSixStarTotal = five + four + three;
+  const expectedRarityCounts = {
+    3: nonSixStarMass * three / nonSixStarTotal,
+    4: nonSixStarMass * four / nonSixStarTotal,
+    5: nonSixStarMass * five / nonSixStarTotal,
+    6: freeSixStarMass + guaranteeProbability
+  };
+
+  return {
+    drawsProbability,
+    targetProbability,
+    expectedCounts,
+    expectedRarityCounts,
+    sparkUsageProbability,
+    expectedSparkRedemptions,
+    guaranteeProbability,
+    completionProbability: 1 - remaining,
+    budgetOutcomes
+  };
+}
+
+// 预热时执行的模拟次数
+const WARMUP_SIMULATIONS = 200;
+
+// 预热使用的干员配置
+const WARMUP_OPERATOR_CONFIG = {
+  "干员1": { weight: 1, target: 1 },
+  "干员2": { weight: 1, target: 0 }
+};
+
+// Worker 消息处理 - 控制消息、精确计算、运行估算、多卡池模拟与分配评估，或一块模拟
 self.onmessage = function(e) {
-  let { taskId, operatorConfig, basePity, workerId, simulationIndex } = e.data;
-  
+  // 控制消息：健康检查与预热，与 src/utils/workerManager.ts 中 WorkerControlMessage 保持一致
+  switch (e.data.type) {
+    case 'ping':
+      self.postMessage({ type: 'pong', workerId: e.data.workerId });
+      return;
+    case 'warmup':
+      runChunk(WARMUP_OPERATOR_CONFIG, 0, DEFAULT_BANNER_RULESET, 0, undefined, undefined, undefined, 0, WARMUP_SIMULATIONS);
+      self.postMessage({ type: 'ready', workerId: e.data.workerId });
+      return;
+    case 'campaign': {
+      // 多卡池模拟的一块，与 src/utils/workerManager.ts 中 CampaignJob 保持一致
+      const { taskId, workerId, jobIndex, campaign, seed, chunkStart, chunkSize } = e.data;
+      try {
+        const result = runCampaignChunk(campaign, seed, chunkStart, chunkSize);
+        self.postMessage({ type: 'jobComplete', taskId, workerId, jobIndex, result });
+      } catch (error) {
+        self.postMessage({ type: 'error', taskId, workerId, error: error.message });
+      }
+      return;
+    }
+    case 'allocation': {
+      // 一组分配策略的评估，与 src/utils/workerManager.ts 中 AllocationJob 保持一致
+      const { taskId, workerId, jobIndex, banners, policies, totalBudget, n, seed, initialPity } = e.data;
+      try {
+        const result = evaluateAllocation(banners, policies, totalBudget, n, seed, initialPity);
+        self.postMessage({ type: 'jobComplete', taskId, workerId, jobIndex, result });
+      } catch (error) {
+        self.postMessage({ type: 'error', taskId, workerId, error: error.message });
+      }
+      return;
+    }
+    case 'exact': {
+      // 精确计算，与 src/utils/workerManager.ts 中 ExactJob 保持一致
+      const { taskId, workerId, jobIndex, operatorConfig, basePity, bannerRuleset, goal, budget } = e.data;
+      try {
+        const result = computeExactDistribution(operatorConfig, basePity, bannerRuleset, goal, budget);
+        self.postMessage({ type: 'jobComplete', taskId, workerId, jobIndex, result });
+      } catch (error) {
+        self.postMessage({ type: 'error', taskId, workerId, error: error.message });
+      }
+      return;
+    }
+    case 'calibrate': {
+      // 运行估算的实测，与 src/utils/workerManager.ts 中 CalibrationJob 保持一致
+      const { taskId, workerId, jobIndex, operatorConfig, basePity, bannerRuleset, goal, budget, strategy, simulations } = e.data;
+      try {
+        const result = calibrate(operatorConfig, basePity, bannerRuleset, goal, budget, strategy, simulations);
+        self.postMessage({ type: 'jobComplete', taskId, workerId, jobIndex, result });
+      } catch (error) {
+        self.postMessage({ type: 'error', taskId, workerId, error: error.message });
+      }
+      return;
+    }
+  }
+
+  const { taskId, operatorConfig, basePity, bannerRuleset, seed, goal, budget, strategy, workerId, chunkStart, chunkSize } = e.data;
+
   try {
-    // 每个Worker只执行一次模拟
-    const result = chouShuTongJi(operatorConfig, basePity);
-    
-    // 发送完成结果
+    const result = runChunk(
+      operatorConfig, basePity, bannerRuleset || DEFAULT_BANNER_RULESET, seed, goal, budget, strategy, chunkStart, chunkSize
+    );
+
+    // 直方图以转移方式发送，避免复制
+    const transfer = [
+      result.drawsHistogram.buffer,
+      result.characterCounts.buffer,
+      result.rarityCounts.buffer,
+      ...result.copyHistograms.map(histogram => histogram.buffer),
+      ...result.targetHistograms.map(histogram => histogram.buffer)
+    ];
+    if (result.offRateCopyHistogram) {
+      transfer.push(result.offRateCopyHistogram.buffer);
+    }
+
     self.postMessage({
       type: 'complete',
       taskId,
       workerId,
-      simulationIndex,
-      result: {
-        totalDraws: result.total,
-        characterCounts: result.statistic,
-        details: result.details
-      }
-    });
-    
-    // 主动清理内存 - 重置所有变量
-    result.statistic = null;
-    result.details = null;
-    
+      chunkStart,
+      result
+    }, transfer);
   } catch (error) {
     // 发送错误信息
     self.postMessage({
       type: 'error',
       taskId,
       workerId,
-      simulationIndex,
+      chunkStart,
       error: error.message
     });
-  } finally {
-    // 强制垃圾回收建议（虽然浏览器可能忽略）
-    if (typeof global !== 'undefined' && global.gc) {
-      global.gc();
-    }
-    
-    // 清理局部变量引用
-    operatorConfig = null;
-    basePity = null;
-    taskId = null;
-    workerId = null;
-    simulationIndex = null;
   }
 };
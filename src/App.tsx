@@ -1,47 +1,64 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { Layout, Typography, Row, Col } from 'antd';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Layout, Typography, Row, Col, Alert } from 'antd';
 import ConfigPanel from './components/ConfigPanel';
 import StatisticsDisplay from './components/StatisticsDisplay';
 import FrequencyDistribution from './components/FrequencyDistribution';
-import { runSimulationWithStatistics, setGPUAcceleration, onGPUStatusChange } from './utils/gacha';
-import type { SimulationStatistics } from './utils/workerManager';
+import IncomePlanner from './components/IncomePlanner';
+import CampaignPanel from './components/CampaignPanel';
+import StrategyComparison from './components/StrategyComparison';
+import SweepPanel from './components/SweepPanel';
+import { runSimulationWithStatistics, setGPUAcceleration, onGPUStatusChange, solveExact, warmUpWorkers, setMultiThreading } from './utils/gacha';
+import type { PrecisionTarget, SimulationStatistics } from './utils/workerManager';
+import { DEFAULT_BANNER_RULESET, type BannerRuleset } from './utils/bannerRuleset';
+import { applyTargetExpression, type TargetExpression } from './utils/targetExpression';
+import type { Resources } from './utils/currency';
+import type { PullStrategy } from './utils/pullStrategy';
+import type { OperatorConfig } from './utils/potential';
 import './App.css';
 
 const { Header, Content } = Layout;
 const { Title } = Typography;
 
-interface OperatorConfig {
-  [key: string]: {
-    weight: number;
-    target: number;
-  };
-}
-
 const App: React.FC = () => {
   const [operatorConfig, setOperatorConfig] = useState<OperatorConfig>({
     "干员1": { weight: 114, target: 191 },
     "干员2": { weight: 514, target: 81 }
   } as OperatorConfig);
   const [basePity, setBasePity] = useState<number>(0);
+  const [bannerRuleset, setBannerRuleset] = useState<BannerRuleset>(DEFAULT_BANNER_RULESET);
   const [simulationCount, setSimulationCount] = useState<number>(10000);
+  const [seed, setSeed] = useState<number | null>(null); // 为空时每次运行随机生成
+  const [precisionTarget, setPrecisionTarget] = useState<PrecisionTarget | null>(null); // 为空时使用固定模拟次数
+  const [targetExpression, setTargetExpression] = useState<TargetExpression | null>(null); // 为空时所有目标干员都需达到目标
+  const [budget, setBudget] = useState<number | null>(null); // 为空时抽到完成目标为止
+  const [strategy, setStrategy] = useState<PullStrategy | null>(null); // 为空时抽到完成目标或用尽预算为止
+  const [resources, setResources] = useState<Resources | null>(null); // 为空时直接输入抽数，否则预算由资源换算
   const [useMultiThreading, setUseMultiThreading] = useState<boolean>(true); // 默认使用多线程
   const [useGPUAcceleration, setUseGPUAcceleration] = useState<boolean>(false); // 默认不使用GPU
+  const [useExactSolver, setUseExactSolver] = useState<boolean>(true); // 默认优先精确计算
   const [gpuAvailable, setGpuAvailable] = useState<boolean>(false);
   const [isSimulating, setIsSimulating] = useState<boolean>(false);
   const [isProcessingData, setIsProcessingData] = useState<boolean>(false);
   const [processingStatus, setProcessingStatus] = useState<string>('');
   const [simulationStatistics, setSimulationStatistics] = useState<SimulationStatistics | null>(null);
   const [progress, setProgress] = useState<number>(0);
+  const [simulationError, setSimulationError] = useState<string | null>(null); // 上次运行失败的原因，如配置不合法
 
   // 清空模拟数据的函数
   const clearSimulationData = useCallback(() => {
     setSimulationStatistics(null);
+    setSimulationError(null);
     setProgress(0);
     setProcessingStatus('');
     console.log('[App] 配置已更改，清空之前的模拟数据');
   }, []);
 
   // 初始化GPU支持检测
+  // 页面加载时预热 Worker 池
+  useEffect(() => {
+    warmUpWorkers();
+  }, []);
+
   useEffect(() => {
     // 监听GPU状态变化
     const unsubscribe = onGPUStatusChange((status) => {
@@ -71,6 +88,13 @@ const App: React.FC = () => {
     console.log(`[App] GPU加速${checked ? '已启用' : '已禁用'}`);
   }, [clearSimulationData]);
 
+  // 多线程开关处理函数 - 同一种子的结果与线程数无关，无需清空数据
+  const handleUseMultiThreadingChange = useCallback((checked: boolean) => {
+    setUseMultiThreading(checked);
+    setMultiThreading(checked);
+    console.log(`[App] 多线程${checked ? '已启用' : '已关闭'}`);
+  }, []);
+
   // 包装setter函数，在配置更改时清空数据
   const handleSetOperatorConfig = useCallback((config: OperatorConfig) => {
     setOperatorConfig(config);
@@ -82,17 +106,48 @@ const App: React.FC = () => {
     clearSimulationData();
   }, [clearSimulationData]);
 
+  const handleSetBannerRuleset = useCallback((rules: BannerRuleset) => {
+    setBannerRuleset(rules);
+    setBasePity(pity => Math.min(pity, Math.max(0, rules.hardCap - 1))); // 保底不能达到硬保底
+    clearSimulationData();
+  }, [clearSimulationData]);
+
+  const handleSetTargetExpression = useCallback((expression: TargetExpression | null) => {
+    setTargetExpression(expression);
+    clearSimulationData();
+  }, [clearSimulationData]);
+
+  const handleSetBudget = useCallback((value: number | null) => {
+    setBudget(value);
+    clearSimulationData();
+  }, [clearSimulationData]);
+
+  const handleSetStrategy = useCallback((value: PullStrategy | null) => {
+    setStrategy(value);
+    clearSimulationData();
+  }, [clearSimulationData]);
+
   const handleSetSimulationCount = useCallback((count: number) => {
     setSimulationCount(count);
     clearSimulationData();
   }, [clearSimulationData]);
 
+  // 当前模拟的取消控制器
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const handleCancelSimulation = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
   const handleRunSimulation = useCallback(async () => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     setIsSimulating(true);
     setIsProcessingData(false);
     setProgress(0);
     setProcessingStatus('');
     setSimulationStatistics(null);
+    setSimulationError(null);
 
     try {
       // 使用更精确的进度回调
@@ -107,14 +162,31 @@ const App: React.FC = () => {
         }
       };
 
-      console.log('[App] 使用多线程模式进行模拟');
+      // 目标较少时直接精确计算，状态空间过大时回退到模拟；抽卡策略只在模拟中判定
+      const exactResult = useExactSolver && !strategy
+        ? await solveExact(operatorConfig, basePity, bannerRuleset, targetExpression ?? undefined, budget ?? undefined, abortController.signal)
+        : null;
+      if (useExactSolver && !exactResult) {
+        console.log('[App] 状态空间或计算量过大，回退到模拟');
+      }
+
+      console.log(exactResult ? '[App] 使用精确计算结果' : '[App] 使用多线程模式进行模拟');
 
       // 使用多线程统计函数
-      const statisticsResult = await runSimulationWithStatistics(
+      const statisticsResult = exactResult ?? await runSimulationWithStatistics(
         simulationCount,
         operatorConfig,
         basePity,
-        progressHandler
+        progressHandler,
+        bannerRuleset,
+        seed ?? undefined,
+        precisionTarget ?? undefined,
+        targetExpression ?? undefined,
+        budget ?? undefined,
+        strategy ?? undefined,
+        abortController.signal,
+        true,
+        setSimulationStatistics
       );
       
       console.log('[App] 接收到统计结果:', {
@@ -125,38 +197,32 @@ const App: React.FC = () => {
         hasStatisticalData: !!statisticsResult.statisticalData
       });
       
-      // 确保完成时进度为100%并设置为数据处理状态
+      // 统计数据已在管理器中计算完成，直接替换运行中的快照
       setProgress(100);
-      setIsProcessingData(true);
-      
-      // 开始详细的数据处理状态更新
-      setProcessingStatus('处理数据中 - 正在计算基础统计参数');
-      await new Promise(resolve => setTimeout(resolve, 200));
-      
-      setProcessingStatus('处理数据中 - 正在计算频数分布');
-      await new Promise(resolve => setTimeout(resolve, 200));
-      
-      setProcessingStatus('处理数据中 - 正在计算累计概率分布');
-      await new Promise(resolve => setTimeout(resolve, 200));
-      
-      setProcessingStatus('处理数据中 - 统计单干员平均值');
-      await new Promise(resolve => setTimeout(resolve, 200));
-      
       setProcessingStatus('完成');
-      
       setSimulationStatistics(statisticsResult);
       
     } catch (error) {
-      console.error('[App] 模拟运行出错:', error);
+      if (abortController.signal.aborted) {
+        console.log('[App] 模拟已取消，尚未完成任何模拟');
+      } else {
+        console.error('[App] 模拟运行出错:', error);
+        setSimulationError(error instanceof Error ? error.message : String(error));
+      }
+      setSimulationStatistics(null); // 清除运行中的快照
       setProgress(0); // 错误时重置进度
       setProcessingStatus('');
     } finally {
       // 重置所有状态
+      abortControllerRef.current = null;
       setIsSimulating(false);
       setIsProcessingData(false);
       setTimeout(() => setProcessingStatus(''), 2000); // 2秒后清除完成状态
     }
-  }, [simulationCount, operatorConfig, basePity]);
+  }, [simulationCount, operatorConfig, basePity, bannerRuleset, useExactSolver, seed, precisionTarget, targetExpression, budget, strategy]);
+
+  // 结果中的目标数量以目标条件为准
+  const displayOperatorConfig = targetExpression ? applyTargetExpression(operatorConfig, targetExpression) : operatorConfig;
 
   // 直接使用simulationStatistics中的统计数据，避免重新计算
   const statistics = simulationStatistics ? {
@@ -223,15 +289,32 @@ const App: React.FC = () => {
               setOperatorConfig={handleSetOperatorConfig}
               basePity={basePity}
               setBasePity={handleSetBasePity}
+              bannerRuleset={bannerRuleset}
+              setBannerRuleset={handleSetBannerRuleset}
               simulationCount={simulationCount}
               setSimulationCount={handleSetSimulationCount}
+              seed={seed}
+              setSeed={setSeed}
+              precisionTarget={precisionTarget}
+              setPrecisionTarget={setPrecisionTarget}
+              targetExpression={targetExpression}
+              setTargetExpression={handleSetTargetExpression}
+              budget={budget}
+              setBudget={handleSetBudget}
+              strategy={strategy}
+              setStrategy={handleSetStrategy}
+              resources={resources}
+              setResources={setResources}
               isSimulating={isSimulating}
               isProcessingData={isProcessingData}
               progress={progress}
               processingStatus={processingStatus}
               onRunSimulation={handleRunSimulation}
+              onCancelSimulation={handleCancelSimulation}
               useMultiThreading={useMultiThreading}
-              onUseMultiThreadingChange={setUseMultiThreading}
+              onUseMultiThreadingChange={handleUseMultiThreadingChange}
+              useExactSolver={useExactSolver}
+              onUseExactSolverChange={setUseExactSolver}
               useGPUAcceleration={useGPUAcceleration}
               onUseGPUAccelerationChange={handleUseGPUAccelerationChange}
               gpuAvailable={gpuAvailable}
@@ -241,6 +324,13 @@ const App: React.FC = () => {
           {/* 结果显示区域 */}
           <Col xs={24} lg={16}>
             <Row gutter={[16, 16]}>
+              {/* 运行失败的原因 */}
+              {simulationError && (
+                <Col span={24}>
+                  <Alert type="error" showIcon message={`模拟运行出错：${simulationError}`} />
+                </Col>
+              )}
+
               {/* 基本统计 */}
               {statistics && (
                 <Col span={24}>
@@ -250,7 +340,8 @@ const App: React.FC = () => {
                     characterStats={simulationStatistics?.characterStats}
                     statisticalData={simulationStatistics?.statisticalData}
                     simulationStatistics={simulationStatistics || undefined}
-                    operatorConfig={operatorConfig}
+                    operatorConfig={displayOperatorConfig}
+                    resources={resources}
                   />
                 </Col>
               )}
@@ -260,12 +351,61 @@ const App: React.FC = () => {
                 <Col span={24}>
                   <FrequencyDistribution
                     totalDrawsData={[]} // 传递空数组，组件内部直接使用simulationStatistics
-                    operatorConfig={operatorConfig}
+                    operatorConfig={displayOperatorConfig}
                     statistics={statistics}
                     simulationStatistics={simulationStatistics}
                   />
                 </Col>
               )}
+
+              {/* 收入规划 */}
+              <Col span={24}>
+                <IncomePlanner
+                  cumulativeProbability={simulationStatistics?.cumulativeProbability}
+                  budgetMode={budget !== null || strategy !== null}
+                />
+              </Col>
+
+              {/* 抽卡策略对比 */}
+              <Col span={24}>
+                <StrategyComparison
+                  operatorConfig={operatorConfig}
+                  basePity={basePity}
+                  bannerRuleset={bannerRuleset}
+                  targetExpression={targetExpression}
+                  budget={budget}
+                  simulationCount={simulationCount}
+                  seed={seed}
+                  resources={resources}
+                  disabled={isSimulating}
+                />
+              </Col>
+
+              {/* 参数扫描 */}
+              <Col span={24}>
+                <SweepPanel
+                  operatorConfig={operatorConfig}
+                  basePity={basePity}
+                  bannerRuleset={bannerRuleset}
+                  targetExpression={targetExpression}
+                  budget={budget}
+                  seed={seed}
+                  disabled={isSimulating}
+                />
+              </Col>
+
+              {/* 多卡池规划 */}
+              <Col span={24}>
+                <CampaignPanel
+                  operatorConfig={operatorConfig}
+                  bannerRuleset={bannerRuleset}
+                  targetExpression={targetExpression}
+                  budget={budget}
+                  simulationCount={simulationCount}
+                  seed={seed}
+                  disabled={isSimulating}
+                />
+              </Col>
             </Row>
           </Col>
         </Row>
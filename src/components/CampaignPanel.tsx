@@ -0,0 +1,625 @@
+import React, { useRef, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Card,
+  Checkbox,
+  Col,
+  Divider,
+  Input,
+  InputNumber,
+  Progress,
+  Row,
+  Select,
+  Space,
+  Statistic,
+  Table,
+  Typography
+} from 'antd';
+import { ArrowDownOutlined, ArrowUpOutlined, DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { Column } from '@ant-design/charts';
+import type { BannerRuleset } from '../utils/bannerRuleset';
+import { runCampaignSimulation, type CampaignBanner, type CampaignStatistics } from '../utils/campaign';
+import {
+  formatAllocationPolicy,
+  getBannerTargets,
+  optimizeAllocation,
+  type AllocationBanner,
+  type AllocationObjective,
+  type AllocationResult
+} from '../utils/allocation';
+import { buildDefaultTargetExpression, formatTargetExpression, type TargetExpression } from '../utils/targetExpression';
+import type { OperatorConfig } from '../utils/potential';
+
+const { Text } = Typography;
+
+// 常见的保底继承组
+const CARRY_GROUP_OPTIONS = ['标准寻访', '限定寻访', '中坚寻访'];
+
+// 不继承保底时 Select 的取值
+const NO_CARRY = '';
+
+// 分配优化的默认参数
+const DEFAULT_TOTAL_BUDGET = 300;
+const DEFAULT_CAP_STEP = 50;
+const DEFAULT_ALLOCATION_SIMULATIONS = 1000;
+
+// 排名表中显示的策略组合数量
+const RANKED_POLICY_ROWS = 20;
+
+interface CampaignPanelProps {
+  // 当前配置面板中的卡池，可加入规划
+  operatorConfig: OperatorConfig;
+  bannerRuleset: BannerRuleset;
+  targetExpression: TargetExpression | null;
+  budget: number | null;
+  simulationCount: number;
+  seed: number | null;
+  disabled?: boolean;
+}
+
+/**
+ * 多卡池规划 - 将当前配置依次加入规划，按顺序连续模拟并在同一继承组的卡池之间继承保底
+ */
+const CampaignPanel: React.FC<CampaignPanelProps> = ({
+  operatorConfig,
+  bannerRuleset,
+  targetExpression,
+  budget,
+  simulationCount,
+  seed,
+  disabled = false,
+}) => {
+  const [banners, setBanners] = useState<AllocationBanner[]>([]);
+  const [initialPity, setInitialPity] = useState<{ [group: string]: number }>({});
+  const [statistics, setStatistics] = useState<CampaignStatistics | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [progress, setProgress] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+  const [totalBudget, setTotalBudget] = useState<number>(DEFAULT_TOTAL_BUDGET);
+  const [objective, setObjective] = useState<AllocationObjective>('expectedValue');
+  const [capStep, setCapStep] = useState<number>(DEFAULT_CAP_STEP);
+  const [allocationSimulations, setAllocationSimulations] = useState<number>(DEFAULT_ALLOCATION_SIMULATIONS);
+  const [allocationResults, setAllocationResults] = useState<AllocationResult[] | null>(null);
+  const [isOptimizing, setIsOptimizing] = useState<boolean>(false);
+  const [allocationProgress, setAllocationProgress] = useState<number>(0);
+  const [allocationError, setAllocationError] = useState<string | null>(null);
+
+  const isBusy = isRunning || isOptimizing;
+
+  // 当前多卡池模拟与分配策略搜索的取消控制器
+  const campaignAbortRef = useRef<AbortController | null>(null);
+  const allocationAbortRef = useRef<AbortController | null>(null);
+
+  // 规划变化后旧结果失效
+  const updateBanners = (updated: AllocationBanner[]) => {
+    setBanners(updated);
+    setStatistics(null);
+    setAllocationResults(null);
+  };
+
+  // 加入时每个目标干员的价值默认为1
+  const addCurrentBanner = () => {
+    const banner: CampaignBanner = {
+      name: `卡池${banners.length + 1}`,
+      operatorConfig,
+      rules: bannerRuleset,
+      goal: targetExpression ?? undefined,
+      budget: budget ?? undefined,
+    };
+    const values: { [name: string]: number } = {};
+    Object.entries(getBannerTargets(banner)).forEach(([name, target]) => {
+      if (target > 0) values[name] = 1;
+    });
+    updateBanners([...banners, { ...banner, values, mustHave: [] }]);
+  };
+
+  const updateBanner = (index: number, banner: AllocationBanner) => {
+    updateBanners(banners.map((b, i) => (i === index ? banner : b)));
+  };
+
+  const moveBanner = (index: number, offset: number) => {
+    const updated = [...banners];
+    [updated[index], updated[index + offset]] = [updated[index + offset], updated[index]];
+    updateBanners(updated);
+  };
+
+  // 规划中使用的继承组，用于输入各组的初始保底
+  const carryGroups = Array.from(new Set(banners.flatMap(banner => banner.rules.carry ? [banner.rules.carry.group] : [])));
+  // 各继承组初始保底的上限：须小于组内所有卡池的硬保底
+  const getMaxInitialPity = (group: string) =>
+    Math.min(...banners.filter(banner => banner.rules.carry?.group === group).map(banner => banner.rules.hardCap)) - 1;
+
+  const runCampaign = async () => {
+    const abortController = new AbortController();
+    campaignAbortRef.current = abortController;
+    setIsRunning(true);
+    setProgress(0);
+    setError(null);
+    try {
+      const pity: { [group: string]: number } = {};
+      carryGroups.forEach(group => {
+        pity[group] = initialPity[group] ?? 0;
+      });
+      setStatistics(await runCampaignSimulation(
+        simulationCount,
+        { banners, initialPity: pity },
+        setProgress,
+        seed ?? undefined,
+        abortController.signal
+      ));
+    } catch (e) {
+      if (abortController.signal.aborted) {
+        console.log('[Campaign] 多卡池模拟已取消');
+      } else {
+        console.error('[Campaign] 多卡池模拟出错:', e);
+        setError(e instanceof Error ? e.message : String(e));
+      }
+    } finally {
+      campaignAbortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const bannerColumns = [
+    {
+      title: '#',
+      key: 'order',
+      width: 40,
+      render: (_: unknown, __: AllocationBanner, index: number) => index + 1,
+    },
+    {
+      title: '卡池',
+      key: 'name',
+      render: (_: unknown, banner: AllocationBanner, index: number) => (
+        <Input
+          size="small"
+          value={banner.name}
+          disabled={isBusy}
+          onChange={(e) => updateBanner(index, { ...banner, name: e.target.value })}
+          style={{ width: 100 }}
+        />
+      ),
+    },
+    {
+      title: '目标条件',
+      key: 'goal',
+      render: (_: unknown, banner: AllocationBanner) => (
+        <Text style={{ fontSize: '12px' }}>
+          {formatTargetExpression(banner.goal ?? buildDefaultTargetExpression(banner.operatorConfig)) || '无目标'}
+        </Text>
+      ),
+    },
+    {
+      title: '预算',
+      key: 'budget',
+      render: (_: unknown, banner: AllocationBanner, index: number) => (
+        <InputNumber
+          min={1}
+          precision={0}
+          size="small"
+          value={banner.budget ?? null}
+          placeholder="抽到完成"
+          disabled={isBusy}
+          onChange={(value) => updateBanner(index, { ...banner, budget: value ?? undefined })}
+          style={{ width: 100 }}
+        />
+      ),
+    },
+    {
+      title: '保底继承',
+      key: 'carry',
+      render: (_: unknown, banner: AllocationBanner, index: number) => (
+        <Select
+          size="small"
+          value={banner.rules.carry?.group ?? NO_CARRY}
+          disabled={isBusy}
+          onChange={(group: string) => updateBanner(index, {
+            ...banner,
+            rules: { ...banner.rules, carry: group === NO_CARRY ? undefined : { group } },
+          })}
+          options={[
+            { label: '不继承', value: NO_CARRY },
+            ...CARRY_GROUP_OPTIONS.map(group => ({ label: group, value: group })),
+          ]}
+          style={{ width: 110 }}
+        />
+      ),
+    },
+    {
+      title: '目标价值',
+      key: 'values',
+      render: (_: unknown, banner: AllocationBanner, index: number) => (
+        <Space direction="vertical" size={2}>
+          {Object.keys(banner.values).map(name => (
+            <Space key={name} size={4}>
+              <Text style={{ fontSize: '12px' }}>{name}</Text>
+              <InputNumber
+                min={0}
+                size="small"
+                value={banner.values[name]}
+                disabled={isBusy}
+                onChange={(value) => updateBanner(index, { ...banner, values: { ...banner.values, [name]: value ?? 0 } })}
+                style={{ width: 70 }}
+              />
+              <Checkbox
+                checked={banner.mustHave.includes(name)}
+                disabled={isBusy}
+                onChange={(e) => updateBanner(index, {
+                  ...banner,
+                  mustHave: e.target.checked
+                    ? [...banner.mustHave, name]
+                    : banner.mustHave.filter(other => other !== name),
+                })}
+              >
+                必需
+              </Checkbox>
+            </Space>
+          ))}
+        </Space>
+      ),
+    },
+    {
+      title: '操作',
+      key: 'actions',
+      render: (_: unknown, __: AllocationBanner, index: number) => (
+        <Space size={0}>
+          <Button
+            type="text"
+            size="small"
+            icon={<ArrowUpOutlined />}
+            disabled={isBusy || index === 0}
+            onClick={() => moveBanner(index, -1)}
+          />
+          <Button
+            type="text"
+            size="small"
+            icon={<ArrowDownOutlined />}
+            disabled={isBusy || index === banners.length - 1}
+            onClick={() => moveBanner(index, 1)}
+          />
+          <Button
+            type="text"
+            danger
+            size="small"
+            icon={<DeleteOutlined />}
+            disabled={isBusy}
+            onClick={() => updateBanners(banners.filter((_, i) => i !== index))}
+          />
+        </Space>
+      ),
+    },
+  ];
+
+  const resultColumns = [
+    { title: '卡池', dataIndex: 'name', key: 'name' },
+    {
+      title: '完成概率',
+      dataIndex: 'successRate',
+      key: 'successRate',
+      render: (value: number) => <Text strong>{value.toFixed(2)}%</Text>,
+    },
+    {
+      title: '平均抽数',
+      dataIndex: 'averageDraws',
+      key: 'averageDraws',
+      render: (value: number) => value.toFixed(1),
+    },
+    {
+      title: '平均起始保底',
+      dataIndex: 'averageStartPity',
+      key: 'averageStartPity',
+      render: (value: number) => value.toFixed(1),
+    },
+    {
+      title: '平均剩余保底',
+      dataIndex: 'averageEndPity',
+      key: 'averageEndPity',
+      render: (value: number) => value.toFixed(1),
+    },
+  ];
+
+  const runOptimization = async () => {
+    const abortController = new AbortController();
+    allocationAbortRef.current = abortController;
+    setIsOptimizing(true);
+    setAllocationProgress(0);
+    setAllocationError(null);
+    try {
+      const pity: { [group: string]: number } = {};
+      carryGroups.forEach(group => {
+        pity[group] = initialPity[group] ?? 0;
+      });
+      const { results } = await optimizeAllocation(
+        banners,
+        totalBudget,
+        objective,
+        allocationSimulations,
+        capStep,
+        pity,
+        setAllocationProgress,
+        seed ?? undefined,
+        abortController.signal
+      );
+      setAllocationResults(results);
+    } catch (e) {
+      if (abortController.signal.aborted) {
+        console.log('[Allocation] 分配策略搜索已取消');
+      } else {
+        console.error('[Allocation] 分配策略搜索出错:', e);
+        setAllocationError(e instanceof Error ? e.message : String(e));
+      }
+    } finally {
+      allocationAbortRef.current = null;
+      setIsOptimizing(false);
+    }
+  };
+
+  // 策略排名表：每个卡池一列策略
+  const allocationColumns = [
+    {
+      title: '排名',
+      key: 'rank',
+      width: 50,
+      render: (_: unknown, __: AllocationResult, index: number) => index + 1,
+    },
+    ...banners.map((banner, bannerIndex) => ({
+      title: banner.name,
+      key: `policy${bannerIndex}`,
+      render: (_: unknown, result: AllocationResult) => (
+        <Space direction="vertical" size={0}>
+          <Text strong={result.policies[bannerIndex].type !== 'skip'}>
+            {formatAllocationPolicy(result.policies[bannerIndex])}
+          </Text>
+          {result.policies[bannerIndex].type !== 'skip' && (
+            <Text type="secondary" style={{ fontSize: '12px' }}>
+              完成 {result.bannerSuccessRates[bannerIndex].toFixed(1)}%
+            </Text>
+          )}
+        </Space>
+      ),
+    })),
+    {
+      title: '期望价值',
+      dataIndex: 'expectedValue',
+      key: 'expectedValue',
+      render: (value: number) => value.toFixed(3),
+    },
+    {
+      title: '必需目标概率',
+      dataIndex: 'mustHaveProbability',
+      key: 'mustHaveProbability',
+      render: (value: number) => `${value.toFixed(2)}%`,
+    },
+    {
+      title: '平均总抽数',
+      dataIndex: 'averageDraws',
+      key: 'averageDraws',
+      render: (value: number) => value.toFixed(1),
+    },
+  ];
+
+  // 各卡池结束时剩余保底的分布
+  const endPityData = statistics
+    ? statistics.banners.flatMap((banner, index) => banner.endPityDistribution.map(entry => ({
+      banner: `${index + 1}. ${banner.name}`,
+      pity: entry.pity,
+      percentage: entry.percentage,
+    })))
+    : [];
+
+  return (
+    <Card
+      title="多卡池规划"
+      size="small"
+      extra={
+        <Button size="small" icon={<PlusOutlined />} disabled={disabled || isBusy} onClick={addCurrentBanner}>
+          加入当前配置
+        </Button>
+      }
+    >
+      <Table
+        columns={bannerColumns}
+        dataSource={banners.map((banner, index) => ({ ...banner, key: index }))}
+        pagination={false}
+        size="small"
+        locale={{ emptyText: '点击 "加入当前配置" 将配置面板中的卡池依次加入规划' }}
+      />
+      <Text type="secondary" style={{ fontSize: '12px', marginTop: 4, display: 'block' }}>
+        * 同一继承组的卡池之间继承已累计未出6星的抽数，不继承的卡池从0开始且结束时剩余的保底不带入之后的卡池；寻访参数与首次UP保底不继承
+      </Text>
+
+      {carryGroups.length > 0 && (
+        <Row gutter={[8, 8]} style={{ marginTop: 12 }}>
+          {carryGroups.map(group => (
+            <Col xs={24} lg={8} key={group}>
+              <InputNumber
+                min={0}
+                max={getMaxInitialPity(group)}
+                precision={0}
+                size="small"
+                value={initialPity[group] ?? 0}
+                disabled={isBusy}
+                onChange={(value) => {
+                  setInitialPity({ ...initialPity, [group]: value ?? 0 });
+                  setStatistics(null);
+                  setAllocationResults(null);
+                }}
+                addonBefore={`${group}当前保底`}
+                addonAfter="抽"
+                style={{ width: '100%' }}
+              />
+            </Col>
+          ))}
+        </Row>
+      )}
+
+      <Space direction="vertical" style={{ width: '100%', marginTop: 12 }}>
+        <Button
+          type="primary"
+          block
+          loading={isRunning}
+          disabled={disabled || isOptimizing || banners.length === 0}
+          onClick={runCampaign}
+        >
+          {isRunning ? '模拟中...' : `运行多卡池模拟 (${simulationCount.toLocaleString()} 次)`}
+        </Button>
+        {isRunning && <Progress percent={progress} size="small" />}
+        {isRunning && (
+          <Button block danger onClick={() => campaignAbortRef.current?.abort()}>
+            取消模拟
+          </Button>
+        )}
+        {error && <Alert type="error" showIcon message={error} />}
+      </Space>
+
+      {statistics && (
+        <div style={{ marginTop: 16 }}>
+          <Statistic
+            title="所有卡池都完成目标的概率"
+            value={statistics.successRate}
+            precision={2}
+            suffix="%"
+            valueStyle={{ color: '#52c41a' }}
+          />
+          <Table
+            columns={resultColumns}
+            dataSource={statistics.banners.map((banner, index) => ({ ...banner, key: index }))}
+            pagination={false}
+            size="small"
+            style={{ marginTop: 12 }}
+          />
+          <Text strong style={{ fontSize: '13px', margin: '12px 0 4px', display: 'block' }}>各卡池结束时剩余保底分布：</Text>
+          <Column
+            data={endPityData}
+            xField="pity"
+            yField="percentage"
+            colorField="banner"
+            group={true}
+            height={300}
+            tooltip={{
+              title: (datum: { pity: number }) => `剩余保底 ${datum.pity} 抽`,
+              items: [
+                {
+                  field: 'percentage',
+                  valueFormatter: (percentage: number) => `${percentage.toFixed(2)}%`,
+                },
+              ],
+            }}
+            axis={{
+              x: { title: '剩余保底 (抽)', labelAutoHide: true },
+              y: { title: '占比 (%)' },
+            }}
+          />
+          <Text type="secondary" style={{ fontSize: '12px', marginTop: 8, display: 'block' }}>
+            * 随机种子：<Text copyable>{statistics.seed}</Text>
+          </Text>
+        </div>
+      )}
+
+      <Divider orientation="left" plain>资源分配优化</Divider>
+      <Row gutter={[8, 8]}>
+        <Col xs={24} lg={12}>
+          <InputNumber
+            min={1}
+            precision={0}
+            size="small"
+            value={totalBudget}
+            disabled={isBusy}
+            onChange={(value) => {
+              setTotalBudget(value || DEFAULT_TOTAL_BUDGET);
+              setAllocationResults(null);
+            }}
+            addonBefore="总抽数"
+            addonAfter="抽"
+            style={{ width: '100%' }}
+          />
+        </Col>
+        <Col xs={24} lg={12}>
+          <Select
+            size="small"
+            value={objective}
+            disabled={isBusy}
+            onChange={(value: AllocationObjective) => setObjective(value)}
+            options={[
+              { label: '期望价值最高', value: 'expectedValue' },
+              { label: '必需目标概率最高', value: 'mustHaveProbability' },
+            ]}
+            style={{ width: '100%' }}
+          />
+        </Col>
+        <Col xs={24} lg={12}>
+          <InputNumber
+            min={1}
+            precision={0}
+            size="small"
+            value={capStep}
+            disabled={isBusy}
+            onChange={(value) => setCapStep(value || DEFAULT_CAP_STEP)}
+            addonBefore="最多N抽的间隔"
+            addonAfter="抽"
+            style={{ width: '100%' }}
+          />
+        </Col>
+        <Col xs={24} lg={12}>
+          <InputNumber
+            min={100}
+            precision={0}
+            step={100}
+            size="small"
+            value={allocationSimulations}
+            disabled={isBusy}
+            onChange={(value) => setAllocationSimulations(value || DEFAULT_ALLOCATION_SIMULATIONS)}
+            addonBefore="每种组合模拟"
+            addonAfter="次"
+            style={{ width: '100%' }}
+          />
+        </Col>
+      </Row>
+      <Text type="secondary" style={{ fontSize: '12px', marginTop: 4, display: 'block' }}>
+        * 对每个卡池分别尝试 跳过 / 最多N抽 / 抽到完成，所有组合共用总抽数并使用相同的随机数流评估；卡池自身的预算在此不生效
+      </Text>
+      <Space direction="vertical" style={{ width: '100%', marginTop: 12 }}>
+        <Button
+          block
+          loading={isOptimizing}
+          disabled={disabled || isRunning || banners.length === 0}
+          onClick={runOptimization}
+        >
+          {isOptimizing ? '搜索中...' : '搜索分配策略'}
+        </Button>
+        {isOptimizing && <Progress percent={allocationProgress} size="small" />}
+        {isOptimizing && (
+          <Button block danger onClick={() => allocationAbortRef.current?.abort()}>
+            取消搜索
+          </Button>
+        )}
+        {allocationError && <Alert type="error" showIcon message={allocationError} />}
+      </Space>
+
+      {allocationResults && allocationResults.length > 0 && (
+        <div style={{ marginTop: 16 }}>
+          <Alert
+            type="success"
+            showIcon
+            message={`推荐策略：${banners.map((banner, index) =>
+              `${banner.name} ${formatAllocationPolicy(allocationResults[0].policies[index])}`).join('，')}`}
+          />
+          <Table
+            columns={allocationColumns}
+            dataSource={allocationResults.slice(0, RANKED_POLICY_ROWS).map((result, index) => ({ ...result, key: index }))}
+            pagination={false}
+            size="small"
+            scroll={{ x: true }}
+            style={{ marginTop: 12 }}
+          />
+          <Text type="secondary" style={{ fontSize: '12px', marginTop: 4, display: 'block' }}>
+            * 共评估 {allocationResults.length} 种策略组合，显示前 {Math.min(RANKED_POLICY_ROWS, allocationResults.length)} 名
+          </Text>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default CampaignPanel;
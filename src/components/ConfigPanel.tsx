@@ -14,33 +14,109 @@ import {
   Progress,
   Alert,
   Popconfirm,
-  Divider
+  Divider,
+  Checkbox,
+  Radio
 } from 'antd';
 import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import type { BannerRuleset, GuaranteeRule, RateUpRule, SparkRule } from '../utils/bannerRuleset';
+import type { PrecisionTarget, RunEstimate } from '../utils/workerManager';
+import { estimateSimulationCost } from '../utils/gacha';
+import {
+  buildDefaultTargetExpression,
+  formatTargetExpression,
+  removeExpressionOperator,
+  renameExpressionOperator,
+  type TargetExpression
+} from '../utils/targetExpression';
+import { MAX_POTENTIAL, getPotentialTarget, type OperatorConfig } from '../utils/potential';
+import { RESOURCE_FIELDS, drawsToResources, resourcesToDraws, type Resources } from '../utils/currency';
+import { BUILTIN_STRATEGIES, formatPullStrategy, type PullStrategy } from '../utils/pullStrategy';
+import TargetExpressionEditor from './TargetExpressionEditor';
+import GPUParityCheck from './GPUParityCheck';
 
 const { Text } = Typography;
 
-interface OperatorConfig {
-  [key: string]: {
-    weight: number;
-    target: number;
-  };
+interface PresetConfig {
+  operators: OperatorConfig;
+  rateUp?: RateUpRule;
+  spark?: SparkRule;
+  guarantee?: GuaranteeRule;
 }
 
+// 启用UP规则时的默认参数
+const DEFAULT_RATE_UP: RateUpRule = { upShare: 50, offRatePoolSize: 60 };
+
+// 启用寻访参数兑换时的默认参数
+const DEFAULT_SPARK: SparkRule = { threshold: 300, maxRedemptions: 1 };
+
+// 启用首次UP保底时的默认参数
+const DEFAULT_GUARANTEE: GuaranteeRule = { pullLimit: 120 };
+
+// 启用精度模式时的默认目标
+const DEFAULT_PRECISION: PrecisionTarget = { meanHalfWidth: 1, percentiles: [50, 95], percentileHalfWidth: 2 };
+
+// 启用预算模式时的默认抽数
+const DEFAULT_BUDGET = 300;
+
+// 止损策略的默认抽数
+const DEFAULT_STOP_LOSS_DRAWS = 150;
+
+// 精度模式可选的分位数
+const PRECISION_PERCENTILE_OPTIONS = [25, 50, 75, 90, 95, 99];
+
+// 预计耗时或内存超过该值时显示警告
+const WARNING_SECONDS = 60;
+const WARNING_MEMORY_BYTES = 1024 * 1024 * 1024;
+
+// 配置停止变化后再重新估算的延迟 (毫秒)，避免每次输入都进行实测
+const ESTIMATE_DEBOUNCE_MS = 300;
+
+// 将字节数格式化为 KB/MB/GB
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024).toFixed(0)} KB`;
+};
+
+// 将秒数格式化为 秒/分钟/小时
+const formatDuration = (seconds: number): string => {
+  if (seconds >= 3600) return `${(seconds / 3600).toFixed(1)} 小时`;
+  if (seconds >= 60) return `${(seconds / 60).toFixed(1)} 分钟`;
+  return `${Math.max(seconds, 0.1).toFixed(1)} 秒`;
+};
+
 interface ConfigPanelProps {
   operatorConfig: OperatorConfig;
   setOperatorConfig: (config: OperatorConfig) => void;
   basePity: number;
   setBasePity: (pity: number) => void;
+  bannerRuleset: BannerRuleset;
+  setBannerRuleset: (rules: BannerRuleset) => void;
   simulationCount: number;
   setSimulationCount: (count: number) => void;
+  seed: number | null;
+  setSeed: (seed: number | null) => void;
+  precisionTarget: PrecisionTarget | null;
+  setPrecisionTarget: (target: PrecisionTarget | null) => void;
+  targetExpression: TargetExpression | null;
+  setTargetExpression: (expression: TargetExpression | null) => void;
+  budget: number | null;
+  setBudget: (budget: number | null) => void;
+  resources: Resources | null;
+  setResources: (resources: Resources | null) => void;
+  strategy: PullStrategy | null;
+  setStrategy: (strategy: PullStrategy | null) => void;
   isSimulating: boolean;
   isProcessingData?: boolean;
   processingStatus?: string; // 新增：处理状态详情
   progress: number;
   onRunSimulation: () => void;
+  onCancelSimulation?: () => void;
   useMultiThreading: boolean;
   onUseMultiThreadingChange: (checked: boolean) => void;
+  useExactSolver: boolean;
+  onUseExactSolverChange: (checked: boolean) => void;
   useGPUAcceleration?: boolean;
   onUseGPUAccelerationChange?: (checked: boolean) => void;
   gpuAvailable?: boolean;
@@ -49,17 +125,34 @@ interface ConfigPanelProps {
 const ConfigPanel: React.FC<ConfigPanelProps> = ({
   operatorConfig,
   setOperatorConfig,
-  // basePity,
-  // setBasePity,
+  basePity,
+  setBasePity,
+  bannerRuleset,
+  setBannerRuleset,
   simulationCount,
   setSimulationCount,
+  seed,
+  setSeed,
+  precisionTarget,
+  setPrecisionTarget,
+  targetExpression,
+  setTargetExpression,
+  budget,
+  setBudget,
+  resources,
+  setResources,
+  strategy,
+  setStrategy,
   isSimulating,
   isProcessingData = false,
   processingStatus = '',
   progress,
   onRunSimulation,
+  onCancelSimulation,
   useMultiThreading,
   onUseMultiThreadingChange,
+  useExactSolver,
+  onUseExactSolverChange,
   useGPUAcceleration = false,
   onUseGPUAccelerationChange,
   gpuAvailable = false,
@@ -70,32 +163,103 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({
   // 计算是否应该禁用所有控件
   const isDisabled = isSimulating;
 
+  // 运行前的内存与耗时估算，配置不合法时不显示；实测在Worker中执行，配置停止变化后才重新估算
+  const [runEstimate, setRunEstimate] = React.useState<RunEstimate | null>(null);
+  React.useEffect(() => {
+    let stale = false;
+    const timer = setTimeout(() => {
+      estimateSimulationCost(
+        simulationCount,
+        operatorConfig,
+        basePity,
+        bannerRuleset,
+        targetExpression ?? undefined,
+        budget ?? undefined,
+        strategy ?? undefined,
+        useGPUAcceleration,
+        useMultiThreading
+      ).then(
+        estimate => { if (!stale) setRunEstimate(estimate); },
+        () => { if (!stale) setRunEstimate(null); }
+      );
+    }, ESTIMATE_DEBOUNCE_MS);
+    return () => {
+      stale = true;
+      clearTimeout(timer);
+    };
+  }, [simulationCount, operatorConfig, basePity, bannerRuleset, targetExpression, budget, strategy, useGPUAcceleration, useMultiThreading]);
+  const isRunExpensive = runEstimate !== null &&
+    ((runEstimate.seconds ?? 0) > WARNING_SECONDS || runEstimate.memoryBytes > WARNING_MEMORY_BYTES);
+
   // 预设配置
-  const presetConfigs: { [key: string]: OperatorConfig } = {
+  const presetConfigs: { [key: string]: PresetConfig } = {
     "联合寻访": {
-      "干员1": { weight: 1, target: 6 },
-      "干员2": { weight: 1, target: 0 },
-      "干员3": { weight: 1, target: 0 },
-      "干员4": { weight: 1, target: 0 },
+      operators: {
+        "干员1": { weight: 1, target: 6 },
+        "干员2": { weight: 1, target: 0 },
+        "干员3": { weight: 1, target: 0 },
+        "干员4": { weight: 1, target: 0 },
+      },
     },
     "双UP": {
-      "主UP": { weight: 1, target: 0 },
-      "副UP": { weight: 1, target: 0 },
-      "其它": { weight: 2, target: 0 },
+      operators: {
+        "主UP": { weight: 1, target: 0, up: true },
+        "副UP": { weight: 1, target: 0, up: true },
+      },
+      rateUp: { upShare: 50, offRatePoolSize: 60 },
     },
     "限定寻访": {
-      "限定干员": { weight: 7, target: 6 },
-      "陪跑": { weight: 7, target: 6 },
-      "其他干员": { weight: 6, target: 0 },
+      operators: {
+        "限定干员": { weight: 1, target: 6, up: true },
+        "陪跑": { weight: 1, target: 6, up: true },
+      },
+      rateUp: { upShare: 70, offRatePoolSize: 60 },
+      spark: DEFAULT_SPARK,
+    },
+    "联动寻访": {
+      operators: {
+        "联动干员": { weight: 1, target: 1, up: true },
+      },
+      rateUp: { upShare: 50, offRatePoolSize: 60 },
+      guarantee: DEFAULT_GUARANTEE,
     },
   };
 
   const applyPreset = (presetName: string) => {
-    if (presetConfigs[presetName]) {
-      setOperatorConfig(presetConfigs[presetName]);
+    const preset = presetConfigs[presetName];
+    if (preset) {
+      setOperatorConfig(preset.operators);
+      // 预设替换全部干员，原条件中的干员不再存在
+      setTargetExpression(null);
+      setBannerRuleset({ ...bannerRuleset, rateUp: preset.rateUp, spark: preset.spark, guarantee: preset.guarantee });
     }
   };
 
+  const updateRateUp = (rateUp: RateUpRule | undefined) => {
+    setBannerRuleset({ ...bannerRuleset, rateUp });
+  };
+
+  const updateSpark = (spark: SparkRule | undefined) => {
+    setBannerRuleset({ ...bannerRuleset, spark });
+  };
+
+  const updateGuarantee = (guarantee: GuaranteeRule | undefined) => {
+    setBannerRuleset({ ...bannerRuleset, guarantee });
+  };
+
+  // 开启自定义条件时以当前目标数量作为初始条件
+  const toggleTargetExpression = (checked: boolean) => {
+    if (!checked) {
+      setTargetExpression(null);
+      return;
+    }
+    const initial = buildDefaultTargetExpression(operatorConfig);
+    if (initial.type === 'all' && initial.children.length === 0) {
+      initial.children.push({ type: 'operator', name: Object.keys(operatorConfig)[0], count: 1 });
+    }
+    setTargetExpression(initial);
+  };
+
   const addOperator = () => {
     const newName = `干员${Object.keys(operatorConfig).length + 1}`;
     setOperatorConfig({
@@ -104,13 +268,29 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({
     });
   };
 
-  const updateOperator = (oldName: string, newName: string, weight: number, target: number) => {
+  const updateOperator = (oldName: string, newName: string, entry: OperatorConfig[string]) => {
     const newConfig = { ...operatorConfig };
     if (oldName !== newName) {
       delete newConfig[oldName];
     }
-    newConfig[newName] = { weight, target };
+    newConfig[newName] = entry;
     setOperatorConfig(newConfig);
+    if (oldName !== newName && targetExpression) {
+      setTargetExpression(renameExpressionOperator(targetExpression, oldName, newName));
+    }
+  };
+
+  // 设置目标潜能时目标数量 = 目标潜能 - 已有数量
+  const updatePotential = (name: string, entry: OperatorConfig[string]) => {
+    updateOperator(name, name, entry.potential
+      ? { ...entry, target: getPotentialTarget(entry.potential, entry.owned) }
+      : entry);
+  };
+
+  // 按资源计算时预算抽数由资源换算
+  const updateResources = (updated: Resources) => {
+    setResources(updated);
+    setBudget(resourcesToDraws(updated));
   };
 
   const removeOperator = (name: string) => {
@@ -118,12 +298,67 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({
     const newConfig = { ...operatorConfig };
     delete newConfig[name];
     setOperatorConfig(newConfig);
+    // 条件中不再保留已删除的干员，全部删除时恢复为默认条件
+    if (targetExpression) {
+      setTargetExpression(removeExpressionOperator(targetExpression, name));
+    }
   };
 
   return (
     <Card title="模拟配置">
       <Form layout="vertical">
-        <Form.Item label="模拟次数 - 支持科学计数法 格式: (底数)e(乘以十的n次方)">
+        <Form.Item label="精度模式">
+          <Switch
+            checked={!!precisionTarget}
+            disabled={isDisabled}
+            onChange={(checked) => setPrecisionTarget(checked ? DEFAULT_PRECISION : null)}
+          />
+          <Text style={{ marginLeft: 8 }}>
+            {precisionTarget ? '自动增加模拟次数直到结果收敛' : '固定模拟次数'}
+          </Text>
+          {precisionTarget && (
+            <Row gutter={8} style={{ marginTop: 8 }}>
+              <Col span={8}>
+                <InputNumber
+                  min={0.01}
+                  step={0.5}
+                  value={precisionTarget.meanHalfWidth}
+                  disabled={isDisabled}
+                  onChange={(value) => setPrecisionTarget({ ...precisionTarget, meanHalfWidth: value || DEFAULT_PRECISION.meanHalfWidth })}
+                  style={{ width: '100%' }}
+                />
+                <Text type="secondary" style={{ fontSize: '10px' }}>均值误差 (± 抽)</Text>
+              </Col>
+              <Col span={8}>
+                <InputNumber
+                  min={0.5}
+                  step={0.5}
+                  value={precisionTarget.percentileHalfWidth}
+                  disabled={isDisabled}
+                  onChange={(value) => setPrecisionTarget({ ...precisionTarget, percentileHalfWidth: value || DEFAULT_PRECISION.percentileHalfWidth })}
+                  style={{ width: '100%' }}
+                />
+                <Text type="secondary" style={{ fontSize: '10px' }}>分位数误差 (± 抽)</Text>
+              </Col>
+              <Col span={8}>
+                <Select
+                  mode="multiple"
+                  value={precisionTarget.percentiles}
+                  disabled={isDisabled}
+                  onChange={(percentiles: number[]) => setPrecisionTarget({ ...precisionTarget, percentiles: [...percentiles].sort((a, b) => a - b) })}
+                  options={PRECISION_PERCENTILE_OPTIONS.map(percentile => ({ label: `P${percentile}`, value: percentile }))}
+                  style={{ width: '100%' }}
+                />
+                <Text type="secondary" style={{ fontSize: '10px' }}>收敛的分位数</Text>
+              </Col>
+            </Row>
+          )}
+          <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginTop: 4 }}>
+            误差为95%置信区间半宽；开启后下方模拟次数作为上限
+          </Text>
+        </Form.Item>
+
+        <Form.Item label={precisionTarget ? '最多模拟次数' : '模拟次数 - 支持科学计数法 格式: (底数)e(乘以十的n次方)'}>
           <InputNumber
             min={100}
             max={100000000}
@@ -150,27 +385,148 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({
             style={{ width: '100%' }}
             formatter={value => `${value}`.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}
           />
-          {simulationCount > 500000 && (
-            <Text type="warning" style={{ fontSize: '12px', marginTop: '4px', display: 'block' }}>
-              你设太大有可能内存不足，程序是本地运行的，所以说别想着炸服务器 <br />
-              建议开启GPU加速以提升性能
+          {runEstimate && (
+            <Text type={isRunExpensive ? 'warning' : 'secondary'} style={{ fontSize: '12px', marginTop: '4px', display: 'block' }}>
+              预计内存占用约 {formatBytes(runEstimate.memoryBytes)} (与模拟次数无关)，
+              {runEstimate.seconds !== null
+                ? `预计耗时约 ${formatDuration(runEstimate.seconds)} (${runEstimate.workerCount} 个Worker)`
+                : 'GPU模式下耗时取决于显卡'}
+              {isRunExpensive && (
+                <>
+                  <br />
+                  程序是本地运行的，所以说别想着炸服务器 <br />
+                  建议开启GPU加速或减少模拟次数
+                </>
+              )}
             </Text>
           )}
         </Form.Item>
 
-        {/* <Form.Item label="已累计未出6星抽数">
+        <Form.Item label="预算模式">
+          <Switch
+            checked={budget !== null}
+            disabled={isDisabled}
+            onChange={(checked) => {
+              setBudget(checked ? DEFAULT_BUDGET : null);
+              setResources(null);
+            }}
+          />
+          <Text style={{ marginLeft: 8 }}>
+            {budget !== null ? `只抽 ${budget} 抽，计算各结果的概率` : '抽到完成目标为止'}
+          </Text>
+          {budget !== null && (
+            <Radio.Group
+              value={resources ? 'resources' : 'draws'}
+              disabled={isDisabled}
+              onChange={(e) => setResources(e.target.value === 'resources' ? drawsToResources(budget) : null)}
+              optionType="button"
+              buttonStyle="solid"
+              size="small"
+              options={[
+                { label: '输入抽数', value: 'draws' },
+                { label: '按资源计算', value: 'resources' },
+              ]}
+              style={{ display: 'block', marginTop: 8 }}
+            />
+          )}
+          {budget !== null && !resources && (
+            <InputNumber
+              min={1}
+              precision={0}
+              value={budget}
+              disabled={isDisabled}
+              onChange={(value) => setBudget(value || DEFAULT_BUDGET)}
+              addonAfter="抽"
+              style={{ width: '100%', marginTop: 8 }}
+            />
+          )}
+          {budget !== null && resources && (
+            <>
+              <Row gutter={[8, 8]} style={{ marginTop: 8 }}>
+                {RESOURCE_FIELDS.map(({ key, label }) => (
+                  <Col span={12} key={key}>
+                    <InputNumber
+                      min={0}
+                      precision={0}
+                      value={resources[key]}
+                      disabled={isDisabled}
+                      onChange={(value) => updateResources({ ...resources, [key]: value ?? 0 })}
+                      addonBefore={label}
+                      style={{ width: '100%' }}
+                    />
+                  </Col>
+                ))}
+              </Row>
+              <Text type={budget > 0 ? 'secondary' : 'warning'} style={{ fontSize: '12px' }}>
+                {budget > 0 ? `可抽 ${budget} 抽 (源石按 1:180 兑换合成玉，不足一抽的部分不计入)` : '当前资源不足一抽'}
+              </Text>
+            </>
+          )}
+        </Form.Item>
+
+        <Form.Item label="抽卡策略">
+          <Select
+            value={strategy?.type ?? 'none'}
+            disabled={isDisabled}
+            onChange={(type) => {
+              const selected = BUILTIN_STRATEGIES.find(s => s.type === type);
+              setStrategy(selected && selected.type !== 'untilTarget' ? selected : null);
+            }}
+            options={BUILTIN_STRATEGIES.map(s => ({
+              label: s.type === 'stopLoss' ? 'N抽未出目标即止损' : formatPullStrategy(s),
+              value: s.type === 'untilTarget' ? 'none' : s.type,
+            }))}
+            style={{ width: '100%' }}
+          />
+          {strategy?.type === 'stopLoss' && (
+            <InputNumber
+              min={1}
+              precision={0}
+              value={strategy.draws}
+              disabled={isDisabled}
+              onChange={(value) => setStrategy({ type: 'stopLoss', draws: value || DEFAULT_STOP_LOSS_DRAWS })}
+              addonBefore="止损抽数"
+              addonAfter="抽"
+              style={{ width: '100%', marginTop: 8 }}
+            />
+          )}
+          {strategy && (
+            <Text type="secondary" style={{ fontSize: '12px', display: 'block' }}>
+              按策略停止时目标可能未完成，结果中给出成功率与花费；设置策略时不使用精确计算
+            </Text>
+          )}
+        </Form.Item>
+
+        <Form.Item label="随机种子">
+          <InputNumber
+            min={0}
+            max={4294967295}
+            precision={0}
+            value={seed}
+            placeholder="留空则每次随机"
+            disabled={isDisabled}
+            onChange={(value) => setSeed(value ?? null)}
+            style={{ width: '100%' }}
+          />
+          <Text type="secondary" style={{ fontSize: '12px' }}>
+            相同的种子、配置与计算方式 (CPU/GPU) 会得到完全相同的结果，可填入结果中记录的种子复现
+          </Text>
+        </Form.Item>
+
+        <Form.Item label="已累计未出6星抽数">
           <InputNumber
             min={0}
-            max={99}
+            max={bannerRuleset.hardCap - 1}
+            precision={0}
             value={basePity}
             disabled={isDisabled}
             onChange={(value) => setBasePity(value || 0)}
             style={{ width: '100%' }}
           />
           <Text type="secondary" style={{ fontSize: '12px' }}>
-            明日方舟50抽后开始增加概率，99抽必出6星
+            只影响本次的第一个6星；{bannerRuleset.softPityStart}抽后开始增加概率，{bannerRuleset.hardCap}抽必出6星
           </Text>
-        </Form.Item> */}
+        </Form.Item>
 
         <Divider />
 
@@ -195,6 +551,117 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({
           </Space>
         </Form.Item>
 
+        <Form.Item label="UP规则">
+          <Switch
+            checked={!!bannerRuleset.rateUp}
+            disabled={isDisabled}
+            onChange={(checked) => updateRateUp(checked ? DEFAULT_RATE_UP : undefined)}
+          />
+          <Text style={{ marginLeft: 8 }}>
+            {bannerRuleset.rateUp ? '按UP占比分配6星' : '按权重直接分配6星'}
+          </Text>
+          {bannerRuleset.rateUp && (
+            <Row gutter={8} style={{ marginTop: 8 }}>
+              <Col span={12}>
+                <InputNumber
+                  min={1}
+                  max={100}
+                  value={bannerRuleset.rateUp.upShare}
+                  disabled={isDisabled}
+                  onChange={(value) => updateRateUp({ ...bannerRuleset.rateUp!, upShare: value || DEFAULT_RATE_UP.upShare })}
+                  formatter={value => `${value}%`}
+                  parser={value => Number(value?.replace('%', '') || 0)}
+                  style={{ width: '100%' }}
+                />
+                <Text type="secondary" style={{ fontSize: '10px' }}>UP占比</Text>
+              </Col>
+              <Col span={12}>
+                <InputNumber
+                  min={0}
+                  precision={0}
+                  value={bannerRuleset.rateUp.offRatePoolSize}
+                  disabled={isDisabled}
+                  onChange={(value) => updateRateUp({ ...bannerRuleset.rateUp!, offRatePoolSize: value ?? 0 })}
+                  style={{ width: '100%' }}
+                />
+                <Text type="secondary" style={{ fontSize: '10px' }}>非UP池6星数量</Text>
+              </Col>
+            </Row>
+          )}
+          <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginTop: 4 }}>
+            开启后出6星时先判定是否为UP，再在UP干员中按权重选择；未标记UP的干员视为非UP池中的一员
+          </Text>
+        </Form.Item>
+
+        <Form.Item label="寻访参数兑换">
+          <Switch
+            checked={!!bannerRuleset.spark}
+            disabled={isDisabled}
+            onChange={(checked) => updateSpark(checked ? DEFAULT_SPARK : undefined)}
+          />
+          <Text style={{ marginLeft: 8 }}>
+            {bannerRuleset.spark ? `每抽获得1点，满${bannerRuleset.spark.threshold}点可兑换目标干员` : '不进行兑换'}
+          </Text>
+          {bannerRuleset.spark && (
+            <Row gutter={8} style={{ marginTop: 8 }}>
+              <Col span={12}>
+                <InputNumber
+                  min={1}
+                  precision={0}
+                  value={bannerRuleset.spark.threshold}
+                  disabled={isDisabled}
+                  onChange={(value) => updateSpark({ ...bannerRuleset.spark!, threshold: value || DEFAULT_SPARK.threshold })}
+                  style={{ width: '100%' }}
+                />
+                <Text type="secondary" style={{ fontSize: '10px' }}>兑换所需点数</Text>
+              </Col>
+              <Col span={12}>
+                <InputNumber
+                  min={0}
+                  precision={0}
+                  value={bannerRuleset.spark.maxRedemptions}
+                  disabled={isDisabled}
+                  onChange={(value) => updateSpark({ ...bannerRuleset.spark!, maxRedemptions: value ?? 0 })}
+                  style={{ width: '100%' }}
+                />
+                <Text type="secondary" style={{ fontSize: '10px' }}>最多兑换次数</Text>
+              </Col>
+            </Row>
+          )}
+          <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginTop: 4 }}>
+            兑换给尚未达成目标的干员；开启UP规则时只能兑换UP干员
+          </Text>
+        </Form.Item>
+
+        <Form.Item label="首次UP保底">
+          <Switch
+            checked={!!bannerRuleset.guarantee}
+            disabled={isDisabled}
+            onChange={(checked) => updateGuarantee(checked ? DEFAULT_GUARANTEE : undefined)}
+          />
+          <Text style={{ marginLeft: 8 }}>
+            {bannerRuleset.guarantee ? `前${bannerRuleset.guarantee.pullLimit}抽未获得UP干员时必定获得` : '无首次UP保底'}
+          </Text>
+          {bannerRuleset.guarantee && (
+            <Row gutter={8} style={{ marginTop: 8 }}>
+              <Col span={12}>
+                <InputNumber
+                  min={1}
+                  precision={0}
+                  value={bannerRuleset.guarantee.pullLimit}
+                  disabled={isDisabled}
+                  onChange={(value) => updateGuarantee({ pullLimit: value || DEFAULT_GUARANTEE.pullLimit })}
+                  style={{ width: '100%' }}
+                />
+                <Text type="secondary" style={{ fontSize: '10px' }}>保底抽数</Text>
+              </Col>
+            </Row>
+          )}
+          <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginTop: 4 }}>
+            每次模拟仅生效一次，保底给出的6星在标记为UP的干员中按权重选择
+          </Text>
+        </Form.Item>
+
         <Form.Item label="干员配置">
           <Space direction="vertical" style={{ width: '100%' }}>
             {Object.entries(operatorConfig).map(([name, config]) => (
@@ -208,7 +675,7 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({
                     placeholder="干员名称"
                     value={name}
                     disabled={isDisabled}
-                    onChange={(e) => updateOperator(name, e.target.value, config.weight, config.target)}
+                    onChange={(e) => updateOperator(name, e.target.value, config)}
                   />
                   <Row gutter={8}>
                     <Col span={12}>
@@ -217,23 +684,62 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({
                         min={1}
                         value={config.weight}
                         disabled={isDisabled}
-                        onChange={(value) => updateOperator(name, name, value || 1, config.target)}
+                        onChange={(value) => updateOperator(name, name, { ...config, weight: value || 1 })}
                         style={{ width: '100%' }}
                       />
-                      <Text type="secondary" style={{ fontSize: '10px' }}>权重</Text>
+                      <Text type="secondary" style={{ fontSize: '10px' }}>
+                        {bannerRuleset.rateUp ? (config.up ? 'UP组内权重' : '非UP池内占1名') : '权重'}
+                      </Text>
                     </Col>
                     <Col span={12}>
                       <InputNumber
                         placeholder="目标数量"
                         min={0}
                         value={config.target}
+                        disabled={isDisabled || !!targetExpression || !!config.potential}
+                        onChange={(value) => updateOperator(name, name, { ...config, target: value || 0 })}
+                        style={{ width: '100%' }}
+                      />
+                      <Text type="secondary" style={{ fontSize: '10px' }}>
+                        {targetExpression ? '目标数量 (由目标条件决定)' : config.potential ? '目标数量 (由潜能计算)' : '目标数量'}
+                      </Text>
+                    </Col>
+                  </Row>
+                  <Row gutter={8}>
+                    <Col span={12}>
+                      <Select
+                        value={config.potential ?? 0}
+                        disabled={isDisabled}
+                        onChange={(potential: number) => updatePotential(name, { ...config, potential: potential || undefined })}
+                        options={[
+                          { label: '不按潜能', value: 0 },
+                          ...Array.from({ length: MAX_POTENTIAL }, (_, i) => ({ label: `潜能${i + 1}`, value: i + 1 })),
+                        ]}
+                        style={{ width: '100%' }}
+                      />
+                      <Text type="secondary" style={{ fontSize: '10px' }}>目标潜能</Text>
+                    </Col>
+                    <Col span={12}>
+                      <InputNumber
+                        min={0}
+                        precision={0}
+                        value={config.owned ?? 0}
                         disabled={isDisabled}
-                        onChange={(value) => updateOperator(name, name, config.weight, value || 0)}
+                        onChange={(value) => updatePotential(name, { ...config, owned: value || undefined })}
                         style={{ width: '100%' }}
                       />
-                      <Text type="secondary" style={{ fontSize: '10px' }}>目标数量</Text>
+                      <Text type="secondary" style={{ fontSize: '10px' }}>已有数量</Text>
                     </Col>
                   </Row>
+                  {(bannerRuleset.rateUp || bannerRuleset.guarantee) && (
+                    <Checkbox
+                      checked={!!config.up}
+                      disabled={isDisabled}
+                      onChange={(e) => updateOperator(name, name, { ...config, up: e.target.checked })}
+                    >
+                      UP干员
+                    </Checkbox>
+                  )}
                   {Object.keys(operatorConfig).length > 1 && (
                     <Button
                       type="text"
@@ -262,6 +768,33 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({
           </Space>
         </Form.Item>
 
+        <Form.Item label="目标条件">
+          <Switch
+            checked={!!targetExpression}
+            disabled={isDisabled}
+            onChange={toggleTargetExpression}
+          />
+          <Text style={{ marginLeft: 8 }}>
+            {targetExpression ? '自定义完成条件' : '所有干员都达到目标数量'}
+          </Text>
+          {targetExpression && (
+            <div style={{ marginTop: 8 }}>
+              <TargetExpressionEditor
+                expression={targetExpression}
+                operatorNames={Object.keys(operatorConfig)}
+                disabled={isDisabled}
+                onChange={setTargetExpression}
+              />
+              <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginTop: 4 }}>
+                当前条件：{formatTargetExpression(targetExpression)}
+              </Text>
+            </div>
+          )}
+          <Text type="secondary" style={{ fontSize: '12px', display: 'block', marginTop: 4 }}>
+            可表达 "任意一名UP"、"三选二" 等条件；寻访参数兑换与单干员统计使用条件中各干员要求的最大数量
+          </Text>
+        </Form.Item>
+
         <Form.Item>
           <Switch
             checked={useMultiThreading}
@@ -275,6 +808,22 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({
           </Text>
         </Form.Item>
 
+        <Form.Item>
+          <Switch
+            checked={useExactSolver}
+            onChange={onUseExactSolverChange}
+            disabled={isDisabled}
+          />
+          <Text style={{ marginLeft: 8 }}>
+            {useExactSolver ? '优先精确计算' : '始终模拟'}
+          </Text>
+          {useExactSolver && (
+            <Text type="secondary" style={{ fontSize: '12px', marginLeft: 8 }}>
+              目标数量较少时直接计算精确概率，状态过多时自动回退到模拟
+            </Text>
+          )}
+        </Form.Item>
+
         <Form.Item>
           <Switch
             checked={useGPUAcceleration}
@@ -295,6 +844,14 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({
               需要支持WebGPU的浏览器
             </Text>
           )}
+          {gpuAvailable && (
+            <GPUParityCheck
+              operatorConfig={operatorConfig}
+              basePity={basePity}
+              bannerRuleset={bannerRuleset}
+              disabled={isDisabled}
+            />
+          )}
         </Form.Item>
 
         <Form.Item>
@@ -362,9 +919,12 @@ const ConfigPanel: React.FC<ConfigPanelProps> = ({
               percent={Math.round(progress)}
               size="small"
               style={{ marginTop: 8 }}
-              status={isProcessingData ? "active" : "normal"} /><Text type="secondary" style={{ fontSize: '12px', marginTop: 4 }}>
-                如果长时间卡在0%请尝试刷新网页
-              </Text></>
+              status={isProcessingData ? "active" : "normal"} />
+            {onCancelSimulation && (
+              <Button block danger onClick={onCancelSimulation} style={{ marginTop: 8 }}>
+                取消模拟 (保留已完成部分的结果)
+              </Button>
+            )}</>
           )}
         </Form.Item>
       </Form>
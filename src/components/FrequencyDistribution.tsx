@@ -1,6 +1,7 @@
 import React from 'react';
-import { Card, Typography, Row, Col } from 'antd';
+import { Card, Typography, Row, Col, Table } from 'antd';
 import { Column, Line } from '@ant-design/charts';
+import { OFF_RATE_TOTAL_NAME } from '../utils/workerManager';
 
 const { Text } = Typography;
 
@@ -18,7 +19,37 @@ interface FrequencyDistributionProps {
     } | null;
     simulationStatistics: {
         characterStats: { [key: string]: { count: number; } };
+        targetStats?: {
+            [key: string]: {
+                target: number;
+                reachRate: number;
+                cumulativeProbability: Array<{ draws: number; probability: number }>;
+                statisticalData: { mean: number };
+                percentiles: Array<{ percentile: number; draws: number }>;
+            };
+        };
+        potentialStats?: {
+            [key: string]: {
+                owned: number;
+                averagePotential: number;
+                overTargetCopies: number;
+                overflowCopies: number;
+                overflowRate: number;
+                tokens: number;
+                certificates: number;
+            };
+        };
+        copyStats?: {
+            [key: string]: {
+                distribution: Array<{ copies: number; simulations: number; percentage: number }>;
+                mean: number;
+            };
+        };
+        sparkStats?: { threshold: number; usageRate: number };
+        guaranteeStats?: { pullLimit: number; triggerRate: number };
         totalSimulations: number;
+        exact?: boolean;
+        live?: boolean; // 运行中的快照
         cumulativeProbability: Array<{ draws: number; probability: number }>;
         histogramData: Array<{
             draws: number;
@@ -96,7 +127,7 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
         }> = [];
 
         // 先计算所有数据，用于获取最大值
-        const tempData: Array<{ name: string; per100: number; avgDraws: number }> = [];
+        const tempData: Array<{ name: string; per100: number; avgDraws: number; overTarget: number }> = [];
         
         Object.entries(characterDataSource).forEach(([name, data]) => {
             console.log(`[Chart] 处理角色 ${name}:`, data);
@@ -108,9 +139,11 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
             // 计算每100抽出货个数：(总计获得 × 100) / 总抽数
             const avgPer100 = (totalObtained * 100) / totalDraws;
             
-            // 计算平均每目标所需抽数：(总抽数 × 目标) / 总计获得
+            // 平均每目标所需抽数：优先使用该干员单独达成目标的抽数分布，否则按 (总抽数 × 目标) / 总计获得 估算
             let avgDrawsPerTarget = 0;
-            if (totalObtained > 0 && target > 0) {
+            if (targetStats[name]) {
+                avgDrawsPerTarget = targetStats[name].statisticalData.mean;
+            } else if (totalObtained > 0 && target > 0) {
                 avgDrawsPerTarget = (totalDraws * target) / totalObtained;
             }
 
@@ -119,7 +152,8 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
             tempData.push({
                 name,
                 per100: avgPer100,
-                avgDraws: avgDrawsPerTarget
+                avgDraws: avgDrawsPerTarget,
+                overTarget: simulationStatistics.potentialStats?.[name]?.overTargetCopies ?? 0
             });
         });
 
@@ -133,11 +167,12 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
         // 获取最大值用于缩放
         const maxPer100 = Math.max(...tempData.map(d => d.per100));
         const maxAvgDraws = Math.max(...tempData.map(d => d.avgDraws));
+        const maxOverTarget = Math.max(...tempData.map(d => d.overTarget));
         
         console.log('[Chart] 最大值:', { maxPer100, maxAvgDraws });
         
         // 生成最终数据
-        tempData.forEach(({ name, per100, avgDraws }) => {
+        tempData.forEach(({ name, per100, avgDraws, overTarget }) => {
             const target = operatorConfig[name]?.target || 0;
             const isTarget = target > 0;
             const category = isTarget ? '目标角色' : '其他角色';
@@ -163,6 +198,18 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
                 scaledValue: (avgDraws / maxAvgDraws) * 100
             };
             result.push(avgDrawsEntry);
+
+            // 添加平均超出目标数量 (多抽的干员)，仅在有潜能统计时显示
+            if (simulationStatistics.potentialStats) {
+                result.push({
+                    name,
+                    value: parseFloat(overTarget.toFixed(2)),
+                    type: '平均超出目标数量',
+                    category,
+                    target,
+                    scaledValue: maxOverTarget > 0 ? (overTarget / maxOverTarget) * 100 : 0
+                });
+            }
             
             console.log(`[Chart] ${name} 生成的数据条目:`, per100Entry, avgDrawsEntry);
         });
@@ -178,9 +225,75 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
         return finalResult;
     };
 
+    // 4. 单干员达成目标的累积概率与分位数表
+    const targetStats = simulationStatistics.targetStats || {};
+    const generateTargetCumulativeData = () => {
+        return Object.entries(targetStats).flatMap(([name, stats]) =>
+            stats.cumulativeProbability.map(item => ({
+                name: `${name} (×${stats.target})`,
+                percentage: parseFloat(item.probability.toFixed(1)),
+                draws: item.draws,
+            }))
+        );
+    };
+
+    const generateTargetPercentileData = () => {
+        return Object.entries(targetStats).map(([name, stats]) => {
+            const row: { [key: string]: string | number } = {
+                key: name,
+                name,
+                target: stats.target,
+                reachRate: `${stats.reachRate.toFixed(2)}%`,
+                mean: stats.statisticalData.mean.toFixed(1),
+            };
+            stats.percentiles.forEach(({ percentile, draws }) => {
+                row[`p${percentile}`] = draws;
+            });
+            return row;
+        });
+    };
+
+    // 5. 每次模拟获得数量分布 - 按获得数量排序，保证横轴顺序
+    const copyStats = simulationStatistics.copyStats || {};
+    const generateCopyData = () => {
+        return Object.entries(copyStats)
+            .flatMap(([name, stats]) =>
+                stats.distribution.map(item => ({
+                    name,
+                    copies: item.copies,
+                    copiesLabel: `${item.copies}`,
+                    simulations: item.simulations,
+                    percentage: parseFloat(item.percentage.toFixed(2)),
+                }))
+            )
+            .sort((a, b) => a.copies - b.copies);
+    };
+
     const histogramData = generateHistogramData();
     const cumulativeData = generateCumulativeData();
     const characterData = generateCharacterData();
+    const targetCumulativeData = generateTargetCumulativeData();
+    const targetPercentileData = generateTargetPercentileData();
+    const copyData = generateCopyData();
+    const overflowTotals = Object.values(simulationStatistics.potentialStats || {}).reduce(
+        (totals, stats) => ({
+            copies: totals.copies + stats.overflowCopies,
+            tokens: totals.tokens + stats.tokens,
+            certificates: totals.certificates + stats.certificates,
+        }),
+        { copies: 0, tokens: 0, certificates: 0 }
+    );
+    const targetPercentileColumns = [
+        { title: '干员', dataIndex: 'name', key: 'name' },
+        { title: '目标数量', dataIndex: 'target', key: 'target' },
+        { title: '达成率', dataIndex: 'reachRate', key: 'reachRate' },
+        { title: '平均抽数', dataIndex: 'mean', key: 'mean' },
+        ...(Object.values(targetStats)[0]?.percentiles || []).map(({ percentile }) => ({
+            title: `P${percentile}`,
+            dataIndex: `p${percentile}`,
+            key: `p${percentile}`,
+        })),
+    ];
 
     // 添加调试信息
     console.log('[Chart] FrequencyDistribution Debug:', {
@@ -196,13 +309,22 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
         <Row gutter={[16, 16]}>
             {/* 1. 抽数统计直方图 */}
             <Col span={24}>
-                <Card title="抽数统计分布" size="small">
+                <Card
+                    title="抽数统计分布"
+                    size="small"
+                    extra={simulationStatistics.live && (
+                        <Text type="secondary" style={{ fontSize: '12px' }}>
+                            实时更新中 - 已完成 {simulationStatistics.totalSimulations.toLocaleString()} 次模拟
+                        </Text>
+                    )}
+                >
                     {histogramData.length > 0 ? (
                         <Column
                             data={histogramData}
                             xField="draws"
                             yField="samplesInRange"
                             height={350}
+                            animate={simulationStatistics.live ? false : undefined} // 快照频繁更新时关闭动画
                             scale={{
                                 y: {
                                     type: 'log', // 对数刻度
@@ -223,9 +345,11 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
                                 },
                                 items: [
                                     {
-                                        name: '人数',
+                                        name: simulationStatistics.exact ? '概率' : '人数',
                                         field: 'samplesInRange',
-                                        valueFormatter: (count: number) => `${count} 人`,
+                                        valueFormatter: (count: number) => simulationStatistics.exact
+                                            ? `${(count * 100).toFixed(4)}%`
+                                            : `${count} 人`,
                                     },
                                     {
                                         name: '占比',
@@ -265,6 +389,18 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
                             暂无数据
                         </div>
                     )}
+                    {simulationStatistics.sparkStats && (
+                        <Text type="secondary" style={{ fontSize: '12px' }}>
+                            累计 {simulationStatistics.sparkStats.threshold} 抽时可兑换目标干员，直方图在该抽数处的峰值即兑换带来的上限，
+                            {simulationStatistics.sparkStats.usageRate.toFixed(2)}% 的模拟使用了兑换
+                        </Text>
+                    )}
+                    {simulationStatistics.guaranteeStats && (
+                        <Text type="secondary" style={{ fontSize: '12px', display: 'block' }}>
+                            第 {simulationStatistics.guaranteeStats.pullLimit} 抽触发首次UP保底，
+                            {simulationStatistics.guaranteeStats.triggerRate.toFixed(2)}% 的模拟由保底给出UP干员
+                        </Text>
+                    )}
                 </Card>
             </Col>
 
@@ -277,6 +413,7 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
                             xField="percentage"
                             yField="draws"
                             height={350}
+                            animate={simulationStatistics.live ? false : undefined}
                             shapeField="smooth"
                             scale={{
                                 y: {
@@ -353,7 +490,7 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
                             group={true} // 使用 group 而不是 isGroup
                             scale={{
                                 color: {
-                                    range : ['#1890ff', '#ff7875']
+                                    range : ['#1890ff', '#ff7875', '#faad14']
                                 }
                             }}
                             label={{
@@ -364,7 +501,7 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
                                     const value = datum.value;
                                     const type = datum.type;
                                     
-                                    if (type === '每100抽出货个数') {
+                                    if (type === '每100抽出货个数' || type === '平均超出目标数量') {
                                         return `${value}个`;
                                     } else if (type === '平均每目标所需抽数') {
                                         return `${value}抽`;
@@ -395,6 +532,16 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
                                         if (avgDrawsData) {
                                             content += `<div style="color: #666;">平均每目标所需: <span style="color: #ff7875; font-weight: bold;">${avgDrawsData.value}抽</span></div>`;
                                         }
+
+                                        const potential = simulationStatistics.potentialStats?.[characterName];
+                                        if (potential) {
+                                            content += `<div style="color: #666;">平均超出目标: <span style="color: #faad14; font-weight: bold;">${potential.overTargetCopies.toFixed(2)}个</span></div>`;
+                                            content += `<div style="color: #666;">平均潜能: ${potential.averagePotential.toFixed(2)} (已有 ${potential.owned} 个)</div>`;
+                                            if (potential.overflowCopies > 0) {
+                                                content += `<div style="color: #666;">满潜溢出: ${potential.overflowCopies.toFixed(2)}个 (${potential.overflowRate.toFixed(1)}% 的模拟)，`
+                                                    + `折合信物 ${potential.tokens.toFixed(2)}、高级凭证 ${potential.certificates.toFixed(1)}</div>`;
+                                            }
+                                        }
                                         
                                         content += `</div>`;
                                         
@@ -420,14 +567,121 @@ const FrequencyDistribution: React.FC<FrequencyDistributionProps> = ({
                             暂无数据
                         </div>
                     )}
+                    {overflowTotals.copies > 0 && (
+                        <Text type="secondary" style={{ fontSize: '12px' }}>
+                            每次模拟平均满潜溢出 {overflowTotals.copies.toFixed(2)} 个，折合信物 {overflowTotals.tokens.toFixed(2)}、高级凭证 {overflowTotals.certificates.toFixed(1)}
+                        </Text>
+                    )}
+                    {simulationStatistics.exact && (
+                        <Text type="secondary" style={{ fontSize: '12px' }}>
+                            精确计算不包含潜能与溢出统计，关闭 "优先精确计算" 后可查看
+                        </Text>
+                    )}
                 </Card>
             </Col>
 
+            {/* 4. 单干员达成目标分布 */}
+            {targetPercentileData.length > 0 && (
+                <Col span={24}>
+                    <Card title="单干员达成目标分布" size="small">
+                        <Line
+                            data={targetCumulativeData}
+                            xField="percentage"
+                            yField="draws"
+                            colorField="name"
+                            height={300}
+                            shapeField="smooth"
+                            scale={{
+                                y: {
+                                    domainMin: 0,
+                                },
+                            }}
+                            tooltip={{
+                                title: 'percentage',
+                                items: [
+                                    {
+                                        field: 'draws',
+                                        name: '所需抽数',
+                                        valueFormatter: (value: number) => `${value} 抽`,
+                                    },
+                                ],
+                            }}
+                            legend={{
+                                position: 'top',
+                            }}
+                            axis={{
+                                x: {
+                                    title: '累积概率 (%)',
+                                    min: 0,
+                                    max: 100,
+                                    tickCount: 11,
+                                },
+                                y: {
+                                    title: '所需抽数',
+                                    min: 0,
+                                },
+                            }}
+                        />
+                        <Table
+                            columns={targetPercentileColumns}
+                            dataSource={targetPercentileData}
+                            pagination={false}
+                            size="small"
+                            style={{ marginTop: 12 }}
+                        />
+                        <Text type="secondary" style={{ fontSize: '12px' }}>
+                            每名目标干员单独统计获得数量首次达到其目标时的抽数，与是否完成其他干员的目标无关；
+                            目标条件为 "或" / "至少k项" 时，整体完成后不再继续抽取，达成率为完成前达到该干员目标的比例，分布只统计这些模拟
+                        </Text>
+                    </Card>
+                </Col>
+            )}
+
+            {/* 5. 每次模拟获得数量分布 */}
+            {copyData.length > 0 && (
+                <Col span={24}>
+                    <Card title="每次模拟获得数量分布" size="small">
+                        <Column
+                            data={copyData}
+                            xField="copiesLabel"
+                            yField="percentage"
+                            colorField="name"
+                            group={true}
+                            height={300}
+                            tooltip={{
+                                title: (datum: { copiesLabel: string }) => `获得 ${datum.copiesLabel} 个`,
+                                items: [
+                                    {
+                                        field: 'percentage',
+                                        valueFormatter: (percentage: number) => `${percentage.toFixed(2)}%`,
+                                    },
+                                ],
+                            }}
+                            legend={{
+                                position: 'top',
+                            }}
+                            axis={{
+                                x: {
+                                    title: '单次模拟获得数量',
+                                },
+                                y: {
+                                    title: '模拟占比 (%)',
+                                },
+                            }}
+                        />
+                        <Text type="secondary" style={{ fontSize: '12px' }}>
+                            平均获得数量：{Object.entries(copyStats).map(([name, stats]) => `${name} ${stats.mean.toFixed(2)}`).join('，')}
+                            {copyStats[OFF_RATE_TOTAL_NAME] && '。启用UP规则时，非UP 6星合计即为追逐目标途中歪的次数'}
+                        </Text>
+                    </Card>
+                </Col>
+            )}
+
             <Col span={24}>
                 <div style={{ padding: 12, background: '#f6f8fa', borderRadius: 6 }}>
                     <Text type="secondary" style={{ fontSize: '12px' }}>
                         <strong>说明:</strong> 以上图表展示了抽卡模拟的核心统计数据。直方图显示抽数分布，累积概率图帮助评估达成目标的可能性，
-                        干员统计图展示各角色的获得情况。鼠标悬停可查看详细数据。
+                        干员统计图展示各角色的获得情况，单干员分布给出每名目标干员各自达成目标所需的抽数。鼠标悬停可查看详细数据。
                     </Text>
                 </div>
             </Col>
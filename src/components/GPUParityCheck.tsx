@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { Alert, Button } from 'antd';
+import type { BannerRuleset } from '../utils/bannerRuleset';
+import { checkGPUParity } from '../utils/gacha';
+import type { ParityReport } from '../utils/workerManager';
+import type { OperatorConfig } from '../utils/potential';
+
+// 每种计算方式的模拟次数
+const PARITY_SIMULATIONS = 20000;
+
+interface GPUParityCheckProps {
+  operatorConfig: OperatorConfig;
+  basePity: number;
+  bannerRuleset: BannerRuleset;
+  disabled?: boolean;
+}
+
+/**
+ * CPU/GPU一致性校验 - 使用当前配置与保底分别运行CPU与GPU模拟，比较抽数分布
+ */
+const GPUParityCheck: React.FC<GPUParityCheckProps> = ({
+  operatorConfig,
+  basePity,
+  bannerRuleset,
+  disabled = false,
+}) => {
+  const [report, setReport] = useState<ParityReport | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runCheck = async () => {
+    setIsRunning(true);
+    setError(null);
+    setReport(null);
+    try {
+      setReport(await checkGPUParity(PARITY_SIMULATIONS, operatorConfig, basePity, bannerRuleset));
+    } catch (e) {
+      console.error('[App] CPU/GPU一致性校验出错:', e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div style={{ marginTop: 8 }}>
+      <Button size="small" loading={isRunning} disabled={disabled} onClick={runCheck}>
+        校验CPU/GPU一致性 (保底 {basePity})
+      </Button>
+      {report && (
+        <Alert
+          type={report.passed ? 'success' : 'warning'}
+          showIcon
+          style={{ marginTop: 8 }}
+          message={report.passed ? 'CPU与GPU的抽数分布一致' : 'CPU与GPU的抽数分布存在显著差异'}
+          description={`平均抽数 CPU ${report.cpuMean.toFixed(2)} / GPU ${report.gpuMean.toFixed(2)}；` +
+            `KS统计量 ${report.ksStatistic.toFixed(4)} (临界值 ${report.criticalValue.toFixed(4)})`}
+        />
+      )}
+      {error && <Alert type="error" showIcon message={error} style={{ marginTop: 8 }} />}
+    </div>
+  );
+};
+
+export default GPUParityCheck;
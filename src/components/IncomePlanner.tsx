@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react';
+import { Alert, Card, Checkbox, Col, Input, InputNumber, Row, Statistic, Table, Typography } from 'antd';
+import { Line } from '@ant-design/charts';
+import { RESOURCE_FIELDS, type Resources } from '../utils/currency';
+import {
+  DEFAULT_INCOME_SOURCES,
+  formatDate,
+  planIncome,
+  type IncomePeriod,
+  type IncomeSource
+} from '../utils/incomePlan';
+import type { CumulativeProbabilityPoint } from '../utils/workerManager';
+
+const { Text } = Typography;
+
+// 收入周期的显示名称
+const PERIOD_LABELS: Record<IncomePeriod, string> = {
+  daily: '每日',
+  weekly: '每周一',
+  monthly: '每月1日',
+};
+
+// 默认卡池开始日期距今天数
+const DEFAULT_BANNER_OFFSET_DAYS = 14;
+
+const EMPTY_STOCK: Resources = { orundum: 0, originitePrime: 0, permits: 0, tenPullPermits: 0 };
+
+interface IncomePlannerProps {
+  cumulativeProbability?: CumulativeProbabilityPoint[]; // 完成目标所需抽数的累积分布，未运行模拟时为空
+  budgetMode?: boolean; // 预算模式下抽数分布在预算处截断，无法用于规划
+}
+
+/**
+ * 收入规划 - 由现有资源与周期收入推算各日期可用的抽数，结合累积分布给出成功率
+ */
+const IncomePlanner: React.FC<IncomePlannerProps> = ({
+  cumulativeProbability,
+  budgetMode = false,
+}) => {
+  // 今天的本地日期
+  const today = useMemo(() => {
+    const now = new Date();
+    return formatDate(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate()));
+  }, []);
+
+  const [stock, setStock] = useState<Resources>(EMPTY_STOCK);
+  const [sources, setSources] = useState<IncomeSource[]>(DEFAULT_INCOME_SOURCES);
+  const [bannerDate, setBannerDate] = useState<string>(
+    () => formatDate(Date.parse(`${today}T00:00:00Z`) + DEFAULT_BANNER_OFFSET_DAYS * 24 * 60 * 60 * 1000)
+  );
+  const [targetProbability, setTargetProbability] = useState<number>(90);
+
+  const updateSource = (index: number, source: IncomeSource) => {
+    setSources(sources.map((s, i) => (i === index ? source : s)));
+  };
+
+  // 规划结果，日期不合法时给出错误信息
+  const { plan, error } = useMemo(() => {
+    if (!cumulativeProbability || budgetMode) {
+      return { plan: null, error: null };
+    }
+    try {
+      return {
+        plan: planIncome(stock, sources, today, bannerDate, cumulativeProbability, targetProbability),
+        error: null,
+      };
+    } catch (e) {
+      return { plan: null, error: e instanceof Error ? e.message : String(e) };
+    }
+  }, [stock, sources, today, bannerDate, cumulativeProbability, budgetMode, targetProbability]);
+
+  const sourceColumns = [
+    {
+      title: '启用',
+      key: 'enabled',
+      width: 60,
+      render: (_: unknown, source: IncomeSource, index: number) => (
+        <Checkbox
+          checked={source.enabled}
+          onChange={(e) => updateSource(index, { ...source, enabled: e.target.checked })}
+        />
+      ),
+    },
+    { title: '收入来源', dataIndex: 'name', key: 'name' },
+    {
+      title: '周期',
+      dataIndex: 'period',
+      key: 'period',
+      render: (period: IncomePeriod) => PERIOD_LABELS[period],
+    },
+    ...RESOURCE_FIELDS.map(({ key, label }) => ({
+      title: label,
+      key,
+      render: (_: unknown, source: IncomeSource, index: number) => (
+        <InputNumber
+          min={0}
+          precision={0}
+          size="small"
+          value={source.income[key]}
+          onChange={(value) => updateSource(index, { ...source, income: { ...source.income, [key]: value ?? 0 } })}
+          style={{ width: 90 }}
+        />
+      ),
+    })),
+  ];
+
+  return (
+    <Card title="收入规划" size="small">
+      <Row gutter={[16, 8]}>
+        <Col xs={24} lg={8}>
+          <Text style={{ fontSize: '12px' }}>卡池开始日期：</Text>
+          <Input
+            type="date"
+            size="small"
+            value={bannerDate}
+            min={today}
+            onChange={(e) => setBannerDate(e.target.value)}
+          />
+        </Col>
+        <Col xs={24} lg={8}>
+          <Text style={{ fontSize: '12px' }}>目标成功率：</Text>
+          <InputNumber
+            min={1}
+            max={100}
+            precision={0}
+            size="small"
+            value={targetProbability}
+            onChange={(value) => setTargetProbability(value || 90)}
+            addonAfter="%"
+            style={{ width: '100%' }}
+          />
+        </Col>
+      </Row>
+
+      <Text strong style={{ fontSize: '13px', margin: '12px 0 4px', display: 'block' }}>今天 ({today}) 的库存：</Text>
+      <Row gutter={[8, 8]}>
+        {RESOURCE_FIELDS.map(({ key, label }) => (
+          <Col xs={12} lg={6} key={key}>
+            <InputNumber
+              min={0}
+              precision={0}
+              size="small"
+              value={stock[key]}
+              onChange={(value) => setStock({ ...stock, [key]: value ?? 0 })}
+              addonBefore={label}
+              style={{ width: '100%' }}
+            />
+          </Col>
+        ))}
+      </Row>
+
+      <Table
+        columns={sourceColumns}
+        dataSource={sources.map(source => ({ ...source, key: source.name }))}
+        pagination={false}
+        size="small"
+        style={{ marginTop: 12 }}
+      />
+      <Text type="secondary" style={{ fontSize: '12px', marginTop: 4, display: 'block' }}>
+        * 收入在每天、每周一或每月1日计入，今天的收入视为已计入库存；活动收入请按近期活动估计填写
+      </Text>
+
+      <div style={{ marginTop: 16 }}>
+        {budgetMode ? (
+          <Alert type="info" showIcon message="预算模式下抽数分布在预算处截断，请关闭预算模式后运行模拟以使用收入规划" />
+        ) : !cumulativeProbability ? (
+          <Alert type="info" showIcon message="运行模拟后将结合完成目标所需抽数的分布计算各日期的成功率" />
+        ) : error ? (
+          <Alert type="error" showIcon message={error} />
+        ) : plan && (
+          <>
+            <Row gutter={16}>
+              <Col xs={24} lg={8}>
+                <Statistic title="卡池开始时可用抽数" value={plan.bannerDraws} suffix="抽" />
+              </Col>
+              <Col xs={24} lg={8}>
+                <Statistic
+                  title="卡池开始当天抽卡的成功率"
+                  value={plan.bannerProbability}
+                  precision={2}
+                  suffix="%"
+                  valueStyle={{ color: plan.bannerProbability >= targetProbability ? '#52c41a' : '#faad14' }}
+                />
+              </Col>
+              <Col xs={24} lg={8}>
+                <Statistic
+                  title={`成功率达到 ${targetProbability}% 的日期`}
+                  value={plan.targetDate ?? '两年内无法达到'}
+                  valueStyle={{ fontSize: '20px' }}
+                />
+                {plan.targetDraws !== null && (
+                  <Text type="secondary" style={{ fontSize: '12px' }}>届时可用 {plan.targetDraws} 抽</Text>
+                )}
+              </Col>
+            </Row>
+            <div style={{ marginTop: 16 }}>
+              <Line
+                data={plan.timeline}
+                xField="date"
+                yField="probability"
+                height={260}
+                scale={{ y: { domainMin: 0, domainMax: 100 } }}
+                tooltip={{
+                  title: 'date',
+                  items: [
+                    { field: 'probability', name: '成功率', valueFormatter: (value: number) => `${value.toFixed(2)}%` },
+                    { field: 'draws', name: '可用抽数', valueFormatter: (value: number) => `${value} 抽` },
+                  ],
+                }}
+                axis={{
+                  x: { title: '日期', labelAutoHide: true },
+                  y: { title: '成功率 (%)' },
+                }}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default IncomePlanner;
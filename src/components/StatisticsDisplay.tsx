@@ -1,9 +1,19 @@
 import React, { useState } from 'react';
 import { Card, Row, Col, Statistic, Typography, Table, Tag, Input, Button, Space } from 'antd';
-import type { CharacterStats, StatisticalData, SimulationStatistics } from '../utils/workerManager';
+import type { CharacterStats, ConfidenceInterval, StatisticalData, SimulationStatistics } from '../utils/workerManager';
+import { formatDrawCost, type Resources } from '../utils/currency';
+import { formatPullStrategy } from '../utils/pullStrategy';
 
 const { Text } = Typography;
 
+// 稀有度标签颜色
+const rarityColors: { [rarity: number]: string } = {
+  6: 'orange',
+  5: 'gold',
+  4: 'purple',
+  3: 'blue',
+};
+
 interface StatisticsDisplayProps {
   statistics: {
     mean: number;
@@ -29,6 +39,7 @@ interface StatisticsDisplayProps {
   statisticalData?: StatisticalData;
   simulationStatistics?: SimulationStatistics; // 完整的统计数据
   operatorConfig: { [key: string]: { weight: number; target: number } };
+  resources?: Resources | null; // 持有的资源，提供时资源折算附加还需的源石
 }
 
 const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
@@ -38,6 +49,7 @@ const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
   statisticalData, // 保留供将来使用
   simulationStatistics,
   operatorConfig,
+  resources,
 }) => {
   // 用户输入的抽数和分析结果
   const [userDraws, setUserDraws] = useState<string>('');
@@ -122,26 +134,48 @@ const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
       color
     });
   };
+
+  // 精确计算结果中的计数为期望值，保留小数显示
+  const formatCount = (count: number): string =>
+    simulationStatistics?.exact ? count.toFixed(3) : count.toString();
+
+  // 95%置信区间半宽，精确计算或缺少数据时不显示
+  const errorBars = simulationStatistics?.errorBars;
+  const formatError = (interval?: ConfidenceInterval, precision: number = 1): string =>
+    interval ? ` ± ${interval.halfWidth.toFixed(precision)}` : '';
+
+  // 抽数的合成玉/源石折算
+  const renderCost = (draws: number) => (
+    <Text type="secondary" style={{ fontSize: '12px' }}>{formatDrawCost(draws, resources)}</Text>
+  );
+
   // 基本统计数据
   const basicStatsColumns = [
     {
       title: '统计指标',
       dataIndex: 'metric',
       key: 'metric',
-      width: '40%',
+      width: '20%',
     },
     {
       title: '数值',
       dataIndex: 'value',
       key: 'value',
-      width: '30%',
+      width: '20%',
       render: (value: string) => <Text strong>{value}</Text>,
     },
+    {
+      title: '资源折算',
+      dataIndex: 'draws',
+      key: 'draws',
+      width: '35%',
+      render: (draws?: number) => draws !== undefined && renderCost(draws),
+    },
     {
       title: '说明',
       dataIndex: 'description',
       key: 'description',
-      width: '30%',
+      width: '25%',
       render: (text: string) => <Text type="secondary">{text}</Text>,
     },
   ];
@@ -150,39 +184,55 @@ const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
     {
       key: '1',
       metric: '期望值 (P95)',
-      value: calculateP95().toFixed(0),
+      value: calculateP95().toFixed(0) + formatError(errorBars?.percentiles[95]),
+      draws: calculateP95(),
       description: '显著概率在此抽数内完成目标',
     },
     {
       key: '2',
       metric: '标准差',
-      value: statistics.std.toFixed(1),
-      description: '数据离散程度',
+      value: `${statistics.std.toFixed(1)} 抽`,
+      description: '数据离散程度 (抽数之差，不折算资源)',
     },
     {
       key: '3',
       metric: 'P25分位数',
-      value: statistics.p25.toFixed(0),
+      value: statistics.p25.toFixed(0) + formatError(errorBars?.percentiles[25]),
+      draws: statistics.p25,
       description: '25%的人低于此值',
     },
     {
       key: '4',
       metric: 'P75分位数',
-      value: statistics.p75.toFixed(0),
+      value: statistics.p75.toFixed(0) + formatError(errorBars?.percentiles[75]),
+      draws: statistics.p75,
       description: '75%的人低于此值',
     },
     {
       key: '5',
       metric: '最小值',
       value: statistics.min.toString(),
+      draws: statistics.min,
       description: '最好运气',
     },
     {
       key: '6',
       metric: '最大值',
       value: statistics.max.toString(),
+      draws: statistics.max,
       description: '最坏运气',
     },
+    // 精度模式中额外指定的分位数
+    ...Object.keys(errorBars?.percentiles ?? {})
+      .map(Number)
+      .filter(percentile => ![25, 50, 75, 95].includes(percentile))
+      .map(percentile => ({
+        key: `p${percentile}`,
+        metric: `P${percentile}分位数`,
+        value: errorBars!.percentiles[percentile].value.toFixed(0) + formatError(errorBars!.percentiles[percentile]),
+        draws: errorBars!.percentiles[percentile].value,
+        description: `${percentile}%的人低于此值`,
+      })),
   ];
 
   // Sigma分析数据
@@ -199,7 +249,11 @@ const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
       key: 'range',
       width: '35%',
       render: (range: number[]) => (
-        <Text>{range[0].toFixed(0)} - {range[1].toFixed(0)} 抽</Text>
+        <>
+          <Text>{range[0].toFixed(0)} - {range[1].toFixed(0)} 抽</Text>
+          <br />
+          {renderCost(range[1])}
+        </>
       ),
     },
     {
@@ -282,7 +336,7 @@ const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
     return {
       key: char,
       name: char,
-      total: stats.count.toString(),
+      total: formatCount(stats.count),
       mean: (stats.count / (simulationStatistics?.totalSimulations || 1)).toFixed(2), // 每次模拟平均获得数
       std: '0.00', // TODO: 标准差计算需要详细数据
       targetValue: operatorConfig[char]?.target || 0,
@@ -291,11 +345,178 @@ const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
     };
   }) : [];
 
+  // 稀有度统计数据
+  const rarityStatsColumns = [
+    {
+      title: '稀有度',
+      dataIndex: 'rarity',
+      key: 'rarity',
+      width: '25%',
+      render: (rarity: number) => <Tag color={rarityColors[rarity]}>{rarity}★</Tag>,
+    },
+    {
+      title: '总计获得',
+      dataIndex: 'total',
+      key: 'total',
+      width: '25%',
+      render: (value: string) => <Text strong>{value}</Text>,
+    },
+    {
+      title: '平均每次模拟获得',
+      dataIndex: 'mean',
+      key: 'mean',
+      width: '25%',
+      render: (value: string) => <Text strong>{value}</Text>,
+    },
+    {
+      title: '每100抽',
+      dataIndex: 'per100',
+      key: 'per100',
+      width: '25%',
+    },
+  ];
+
+  const rarityStatsData = simulationStatistics?.rarityStats
+    ? ([6, 5, 4, 3] as const).map(rarity => {
+      const stats = simulationStatistics.rarityStats[rarity];
+      return {
+        key: rarity.toString(),
+        rarity,
+        total: formatCount(stats.count),
+        mean: stats.averagePerSimulation.toFixed(2),
+        per100: stats.averagePer100Draws.toFixed(2),
+      };
+    })
+    : [];
+
+  // 预算模式：各目标干员与干员组合的达成概率
+  const budgetStats = simulationStatistics?.budgetStats;
+  const budgetTargetData = budgetStats
+    ? Object.entries(budgetStats.targetProbabilities).map(([name, probability]) => ({
+      key: name,
+      name,
+      target: operatorConfig[name]?.target ?? 0,
+      probability: `${probability.toFixed(2)}%`,
+    }))
+    : [];
+  const budgetJointData = budgetStats
+    ? budgetStats.jointOutcomes.map(({ met, probability }) => ({
+      key: met.join('|') || '-',
+      met,
+      probability: `${probability.toFixed(2)}%`,
+    }))
+    : [];
+
+  // 抽卡策略：成功率与花费
+  const strategyStats = simulationStatistics?.strategyStats;
+
   return (
     <Row gutter={[16, 16]}>
+      {/* 抽卡策略 */}
+      {strategyStats && (
+        <Col span={24}>
+          <Card title={`抽卡策略：${formatPullStrategy(strategyStats.strategy)}`} size="small">
+            <Row gutter={16}>
+              <Col xs={24} lg={6}>
+                <Statistic
+                  title="成功率"
+                  value={strategyStats.successRate}
+                  precision={2}
+                  suffix="%"
+                  valueStyle={{ color: '#52c41a' }}
+                />
+              </Col>
+              <Col xs={24} lg={6}>
+                <Statistic title="期望花费" value={strategyStats.expectedSpend} precision={1} suffix="抽" />
+                {renderCost(strategyStats.expectedSpend)}
+              </Col>
+              <Col xs={24} lg={6}>
+                <Statistic
+                  title="失败率"
+                  value={strategyStats.failureRate}
+                  precision={2}
+                  suffix="%"
+                  valueStyle={{ color: '#faad14' }}
+                />
+              </Col>
+              <Col xs={24} lg={6}>
+                <Statistic
+                  title="失败时平均花费"
+                  value={strategyStats.failureSpend ?? '-'}
+                  precision={strategyStats.failureSpend !== null ? 1 : undefined}
+                  suffix={strategyStats.failureSpend !== null ? '抽' : undefined}
+                />
+                {strategyStats.failureSpend !== null && renderCost(strategyStats.failureSpend)}
+              </Col>
+            </Row>
+            <Text type="secondary" style={{ fontSize: '12px', marginTop: 8, display: 'block' }}>
+              * 每次模拟在完成目标条件或按策略停止时结束；下方抽数统计为实际花费的抽数
+            </Text>
+          </Card>
+        </Col>
+      )}
+
+      {/* 预算模式 */}
+      {budgetStats && (
+        <Col span={24}>
+          <Card title={`${budgetStats.budget} 抽内达成概率`} size="small" extra={renderCost(budgetStats.budget)}>
+            <Row gutter={16}>
+              <Col xs={24} lg={6}>
+                <Statistic
+                  title="完成目标条件"
+                  value={budgetStats.goalProbability}
+                  precision={2}
+                  suffix="%"
+                  valueStyle={{ color: '#52c41a' }}
+                />
+              </Col>
+              <Col xs={24} lg={8}>
+                <Table
+                  columns={[
+                    { title: '目标干员', dataIndex: 'name', key: 'name' },
+                    { title: '目标数量', dataIndex: 'target', key: 'target' },
+                    { title: '达成概率', dataIndex: 'probability', key: 'probability' },
+                  ]}
+                  dataSource={budgetTargetData}
+                  pagination={false}
+                  size="small"
+                />
+              </Col>
+              <Col xs={24} lg={10}>
+                <Table
+                  columns={[
+                    {
+                      title: '达成目标的干员',
+                      dataIndex: 'met',
+                      key: 'met',
+                      render: (met: string[]) => met.length > 0
+                        ? met.map(name => <Tag key={name} color="red">{name}</Tag>)
+                        : <Text type="secondary">均未达成</Text>,
+                    },
+                    { title: '概率', dataIndex: 'probability', key: 'probability' },
+                  ]}
+                  dataSource={budgetJointData}
+                  pagination={false}
+                  size="small"
+                />
+              </Col>
+            </Row>
+            <Text type="secondary" style={{ fontSize: '12px', marginTop: 8, display: 'block' }}>
+              * 每次模拟在完成目标条件或用尽 {budgetStats.budget} 抽时停止；下方抽数统计为实际使用的抽数，获得数量分布即预算内的获得情况
+            </Text>
+          </Card>
+        </Col>
+      )}
+
       {/* 基本统计 */}
       <Col xs={24} lg={12}>
-        <Card title="基本统计数据" size="small">
+        <Card
+          title="基本统计数据"
+          size="small"
+          extra={simulationStatistics?.exact ? <Tag color="green">精确计算</Tag>
+            : simulationStatistics?.live ? <Tag color="processing">实时更新中</Tag>
+            : simulationStatistics?.partial ? <Tag color="orange">部分结果</Tag> : undefined}
+        >
           <Row gutter={16} style={{ marginBottom: 16, margin: '0 8px' }} justify="space-around" align="middle">
             <Col flex="1">
               <div style={{ textAlign: 'left' }}>
@@ -304,7 +525,9 @@ const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
                   value={statistics.mean}
                   precision={1}
                   valueStyle={{ color: '#1890ff' }}
+                  suffix={errorBars && <Text type="secondary" style={{ fontSize: '12px' }}>{formatError(errorBars.mean, 2)}</Text>}
                 />
+                {renderCost(statistics.mean)}
               </div>
             </Col>
             <Col flex="1">
@@ -314,7 +537,9 @@ const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
                   value={statistics.median}
                   precision={1}
                   valueStyle={{ color: '#52c41a' }}
+                  suffix={errorBars && <Text type="secondary" style={{ fontSize: '12px' }}>{formatError(errorBars.percentiles[50])}</Text>}
                 />
+                {renderCost(statistics.median)}
               </div>
             </Col>
             <Col flex="1">
@@ -324,6 +549,7 @@ const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
                   value={statistics.std}
                   precision={1}
                   valueStyle={{ color: '#faad14' }}
+                  suffix={<Text type="secondary" style={{ fontSize: '12px' }}>抽</Text>}
                 />
               </div>
             </Col>
@@ -335,6 +561,7 @@ const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
                   precision={0}
                   valueStyle={{ color: '#722ed1' }}
                 />
+                {renderCost(statistics.totalDraws)}
               </div>
             </Col>
           </Row>
@@ -344,6 +571,42 @@ const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
             pagination={false}
             size="small"
           />
+          {errorBars && (
+            <Text type="secondary" style={{ fontSize: '12px', marginTop: 8, display: 'block' }}>
+              * ± 为{errorBars.confidence}%置信区间半宽 (基于 {simulationStatistics!.totalSimulations.toLocaleString()} 次模拟)
+              {errorBars.converged === true && <Text type="success">，已达到目标精度</Text>}
+              {errorBars.converged === false && <Text type="warning">，已达到模拟次数上限但尚未达到目标精度</Text>}
+            </Text>
+          )}
+          {simulationStatistics?.live && (
+            <Text type="secondary" style={{ fontSize: '12px', marginTop: 8, display: 'block' }}>
+              * 模拟进行中，以上为已完成的 {simulationStatistics.totalSimulations.toLocaleString()} 次模拟的统计，分布稳定后可提前取消并保留结果
+            </Text>
+          )}
+          {simulationStatistics?.partial && (
+            <Text type="warning" style={{ fontSize: '12px', marginTop: 8, display: 'block' }}>
+              * 模拟已取消，以上为已完成的 {simulationStatistics.totalSimulations.toLocaleString()} 次模拟的部分结果
+            </Text>
+          )}
+          {simulationStatistics?.seed !== undefined && (
+            <Text type="secondary" style={{ fontSize: '12px', marginTop: 8, display: 'block' }}>
+              * 随机种子：<Text copyable>{simulationStatistics.seed}</Text>
+            </Text>
+          )}
+          {simulationStatistics?.sparkStats && (
+            <Text type="secondary" style={{ fontSize: '12px', marginTop: 8, display: 'block' }}>
+              * 寻访参数兑换 ({simulationStatistics.sparkStats.threshold}点)：
+              <Text strong>{simulationStatistics.sparkStats.usageRate.toFixed(2)}%</Text> 的模拟使用了兑换，
+              共兑换 {formatCount(simulationStatistics.sparkStats.totalRedemptions)} 次
+            </Text>
+          )}
+          {simulationStatistics?.guaranteeStats && (
+            <Text type="secondary" style={{ fontSize: '12px', marginTop: 4, display: 'block' }}>
+              * 首次UP保底 ({simulationStatistics.guaranteeStats.pullLimit}抽)：
+              <Text strong>{simulationStatistics.guaranteeStats.triggerRate.toFixed(2)}%</Text> 的模拟由保底给出UP干员，
+              共 {formatCount(simulationStatistics.guaranteeStats.simulationsTriggered)} 次
+            </Text>
+          )}
         </Card>
       </Col>
 
@@ -385,6 +648,7 @@ const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
                       查看位置
                     </Button>
                   </Space>
+                  {parseInt(userDraws) >= 0 && renderCost(parseInt(userDraws))}
                 </Space>
               </Col>
               <Col xs={24} lg={12}>
@@ -438,6 +702,23 @@ const StatisticsDisplay: React.FC<StatisticsDisplayProps> = ({
           />
         </Card>
       </Col>
+
+      {/* 稀有度统计 */}
+      {rarityStatsData.length > 0 && (
+        <Col span={24}>
+          <Card title="稀有度统计" size="small">
+            <Table
+              columns={rarityStatsColumns}
+              dataSource={rarityStatsData}
+              pagination={false}
+              size="small"
+            />
+            <Text type="secondary" style={{ fontSize: '12px', marginTop: 8, display: 'block' }}>
+              * 统计每次模拟从开始到完成目标期间获得的各稀有度干员数量，可用于估算凭证收入
+            </Text>
+          </Card>
+        </Col>
+      )}
     </Row>
   );
 };
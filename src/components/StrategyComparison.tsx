@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Alert, Button, Card, Checkbox, InputNumber, Progress, Space, Table, Typography } from 'antd';
+import type { BannerRuleset } from '../utils/bannerRuleset';
+import { compareStrategies } from '../utils/gacha';
+import { formatDrawCost, type Resources } from '../utils/currency';
+import { BUILTIN_STRATEGIES, formatPullStrategy, type PullStrategy } from '../utils/pullStrategy';
+import type { StrategyStats } from '../utils/workerManager';
+import type { TargetExpression } from '../utils/targetExpression';
+import type { OperatorConfig } from '../utils/potential';
+
+const { Text } = Typography;
+
+// 止损策略的默认抽数
+const DEFAULT_STOP_LOSS_DRAWS = 150;
+
+interface StrategyComparisonProps {
+  operatorConfig: OperatorConfig;
+  basePity: number;
+  bannerRuleset: BannerRuleset;
+  targetExpression: TargetExpression | null;
+  budget: number | null;
+  simulationCount: number;
+  seed: number | null;
+  resources?: Resources | null;
+  disabled?: boolean;
+}
+
+/**
+ * 抽卡策略对比 - 使用相同的配置与种子依次模拟各策略，并排比较成功率与花费
+ */
+const StrategyComparison: React.FC<StrategyComparisonProps> = ({
+  operatorConfig,
+  basePity,
+  bannerRuleset,
+  targetExpression,
+  budget,
+  simulationCount,
+  seed,
+  resources,
+  disabled = false,
+}) => {
+  const [selectedTypes, setSelectedTypes] = useState<PullStrategy['type'][]>(BUILTIN_STRATEGIES.map(s => s.type));
+  const [stopLossDraws, setStopLossDraws] = useState<number>(DEFAULT_STOP_LOSS_DRAWS);
+  const [results, setResults] = useState<StrategyStats[] | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [progress, setProgress] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const runComparison = async () => {
+    setIsRunning(true);
+    setProgress(0);
+    setError(null);
+    try {
+      const strategies = BUILTIN_STRATEGIES
+        .filter(s => selectedTypes.includes(s.type))
+        .map(s => (s.type === 'stopLoss' ? { type: s.type, draws: stopLossDraws } : s));
+      setResults(await compareStrategies(
+        simulationCount,
+        operatorConfig,
+        strategies,
+        basePity,
+        setProgress,
+        bannerRuleset,
+        seed ?? undefined,
+        targetExpression ?? undefined,
+        budget ?? undefined
+      ));
+    } catch (e) {
+      console.error('[Strategy] 策略对比出错:', e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const renderDraws = (draws: number | null) => draws === null ? <Text type="secondary">从未失败</Text> : (
+    <>
+      <div>{draws.toFixed(1)} 抽</div>
+      <Text type="secondary" style={{ fontSize: '12px' }}>{formatDrawCost(draws, resources)}</Text>
+    </>
+  );
+
+  const columns = [
+    {
+      title: '策略',
+      dataIndex: 'strategy',
+      key: 'strategy',
+      render: (strategy: PullStrategy) => formatPullStrategy(strategy),
+    },
+    {
+      title: '成功率',
+      dataIndex: 'successRate',
+      key: 'successRate',
+      render: (rate: number) => `${rate.toFixed(2)}%`,
+    },
+    {
+      title: '期望花费',
+      dataIndex: 'expectedSpend',
+      key: 'expectedSpend',
+      render: renderDraws,
+    },
+    {
+      title: '失败时平均花费',
+      dataIndex: 'failureSpend',
+      key: 'failureSpend',
+      render: renderDraws,
+    },
+  ];
+
+  return (
+    <Card title="抽卡策略对比" size="small">
+      <Checkbox.Group
+        value={selectedTypes}
+        disabled={disabled || isRunning}
+        onChange={(values) => setSelectedTypes(values as PullStrategy['type'][])}
+        options={BUILTIN_STRATEGIES.map(s => ({
+          label: s.type === 'stopLoss' ? 'N抽未出目标即止损' : formatPullStrategy(s),
+          value: s.type,
+        }))}
+      />
+      {selectedTypes.includes('stopLoss') && (
+        <InputNumber
+          min={1}
+          precision={0}
+          size="small"
+          value={stopLossDraws}
+          disabled={disabled || isRunning}
+          onChange={(value) => setStopLossDraws(value || DEFAULT_STOP_LOSS_DRAWS)}
+          addonBefore="止损抽数"
+          addonAfter="抽"
+          style={{ width: 200, marginTop: 8, display: 'block' }}
+        />
+      )}
+
+      <Space direction="vertical" style={{ width: '100%', marginTop: 12 }}>
+        <Button
+          type="primary"
+          block
+          loading={isRunning}
+          disabled={disabled || selectedTypes.length === 0}
+          onClick={runComparison}
+        >
+          {isRunning ? '对比中...' : `对比 ${selectedTypes.length} 个策略 (每个 ${simulationCount.toLocaleString()} 次)`}
+        </Button>
+        {isRunning && <Progress percent={Math.floor(progress)} size="small" />}
+        {error && <Alert type="error" showIcon message={error} />}
+      </Space>
+
+      {results && (
+        <>
+          <Table
+            columns={columns}
+            dataSource={results.map((stats, index) => ({ ...stats, key: index }))}
+            pagination={false}
+            size="small"
+            style={{ marginTop: 12 }}
+          />
+          <Text type="secondary" style={{ fontSize: '12px', marginTop: 4, display: 'block' }}>
+            * 所有策略使用相同的随机种子；"下一个保底" 指首次UP保底与寻访参数兑换中较早的一个，均未启用时为下一个6星
+          </Text>
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default StrategyComparison;
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { Alert, Button, Card, Col, InputNumber, Progress, Row, Select, Space, Switch, Typography } from 'antd';
+import { Heatmap, Line } from '@ant-design/charts';
+import type { BannerRuleset } from '../utils/bannerRuleset';
+import {
+  formatSweepParameter,
+  getAxisValues,
+  runSweep,
+  type SweepAxis,
+  type SweepParameter,
+  type SweepPoint,
+  type SweepResult
+} from '../utils/sweep';
+import type { TargetExpression } from '../utils/targetExpression';
+import type { OperatorConfig } from '../utils/potential';
+
+const { Text } = Typography;
+
+// 每个扫描点的默认模拟次数
+const DEFAULT_SWEEP_SIMULATIONS = 2000;
+
+// 可选的统计指标
+type SweepMetric = 'mean' | 'median' | 'p75' | 'successRate';
+
+const METRIC_LABELS: Record<SweepMetric, string> = {
+  mean: '平均抽数',
+  median: '中位数',
+  p75: '75%分位数',
+  successRate: '预算内成功率 (%)',
+};
+
+interface SweepPanelProps {
+  operatorConfig: OperatorConfig;
+  basePity: number;
+  bannerRuleset: BannerRuleset;
+  targetExpression: TargetExpression | null;
+  budget: number | null;
+  seed: number | null;
+  disabled?: boolean;
+}
+
+// Select 中参数的取值
+const encodeParameter = (parameter: SweepParameter): string =>
+  parameter.type === 'basePity' ? 'basePity' : `${parameter.type}:${parameter.operator}`;
+
+const decodeParameter = (value: string): SweepParameter => {
+  if (value === 'basePity') {
+    return { type: 'basePity' };
+  }
+  const [type, ...operator] = value.split(':');
+  return { type: type as 'target' | 'weight', operator: operator.join(':') };
+};
+
+/**
+ * 参数扫描 - 在一个或两个参数的取值范围内逐点模拟，一个参数时绘制折线图，两个参数时绘制热力图
+ */
+const SweepPanel: React.FC<SweepPanelProps> = ({
+  operatorConfig,
+  basePity,
+  bannerRuleset,
+  targetExpression,
+  budget,
+  seed,
+  disabled = false,
+}) => {
+  // 切换参数时的默认范围
+  const getDefaultAxis = (parameter: SweepParameter): SweepAxis => {
+    switch (parameter.type) {
+      case 'target':
+        return { parameter, start: 1, end: 6, step: 1 };
+      case 'weight': {
+        const weight = operatorConfig[parameter.operator]?.weight || 1;
+        return { parameter, start: weight, end: weight * 5, step: weight };
+      }
+      case 'basePity':
+        return { parameter, start: 0, end: bannerRuleset.hardCap - 1, step: 7 };
+    }
+  };
+
+  const firstOperator = Object.keys(operatorConfig)[0];
+  const [axes, setAxes] = useState<SweepAxis[]>(() => [
+    getDefaultAxis(firstOperator ? { type: 'target', operator: firstOperator } : { type: 'basePity' }),
+  ]);
+  const [simulations, setSimulations] = useState<number>(DEFAULT_SWEEP_SIMULATIONS);
+  const [metric, setMetric] = useState<SweepMetric>('mean');
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [progress, setProgress] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const parameterOptions = [
+    { label: formatSweepParameter({ type: 'basePity' }), value: 'basePity' },
+    ...Object.keys(operatorConfig).flatMap(operator => [
+      { label: formatSweepParameter({ type: 'target', operator }), value: `target:${operator}` },
+      { label: formatSweepParameter({ type: 'weight', operator }), value: `weight:${operator}` },
+    ]),
+  ];
+
+  const updateAxis = (index: number, axis: SweepAxis) => {
+    setAxes(axes.map((a, i) => (i === index ? axis : a)));
+  };
+
+  const pointCount = axes.reduce((count, axis) => count * (axis.end >= axis.start && axis.step > 0 ? getAxisValues(axis).length : 0), 1);
+
+  const runSweepJob = async () => {
+    setIsRunning(true);
+    setProgress(0);
+    setError(null);
+    try {
+      setResult(await runSweep(
+        axes,
+        simulations,
+        operatorConfig,
+        basePity,
+        setProgress,
+        bannerRuleset,
+        seed ?? undefined,
+        targetExpression ?? undefined,
+        budget ?? undefined
+      ));
+    } catch (e) {
+      console.error('[Sweep] 参数扫描出错:', e);
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const renderAxisEditor = (axis: SweepAxis, index: number) => (
+    <Row gutter={[8, 8]} key={index} style={{ marginBottom: 8 }}>
+      <Col xs={24} lg={9}>
+        <Select
+          value={encodeParameter(axis.parameter)}
+          disabled={disabled || isRunning}
+          onChange={(value) => updateAxis(index, getDefaultAxis(decodeParameter(value)))}
+          options={parameterOptions}
+          style={{ width: '100%' }}
+        />
+      </Col>
+      {(['start', 'end', 'step'] as const).map(field => (
+        <Col xs={8} lg={5} key={field}>
+          <InputNumber
+            min={0}
+            value={axis[field]}
+            disabled={disabled || isRunning}
+            onChange={(value) => updateAxis(index, { ...axis, [field]: value ?? 0 })}
+            addonBefore={{ start: '起点', end: '终点', step: '步长' }[field]}
+            style={{ width: '100%' }}
+          />
+        </Col>
+      ))}
+    </Row>
+  );
+
+  // 图表数据，未设置预算时成功率为空
+  const metricValue = (point: SweepPoint): number | null => point[metric];
+  const chartData = result
+    ? result.points.map(point => ({
+      x: result.axes.length === 1 ? point.values[0] : String(point.values[0]),
+      y: result.axes.length === 2 ? String(point.values[1]) : undefined,
+      value: metricValue(point),
+    }))
+    : [];
+  const hasMetric = chartData.every(point => point.value !== null);
+
+  return (
+    <Card title="参数扫描" size="small">
+      {renderAxisEditor(axes[0], 0)}
+      <Space style={{ marginBottom: 8 }}>
+        <Switch
+          size="small"
+          checked={axes.length === 2}
+          disabled={disabled || isRunning}
+          onChange={(checked) => setAxes(checked
+            ? [axes[0], getDefaultAxis(axes[0].parameter.type === 'basePity' && firstOperator
+              ? { type: 'target', operator: firstOperator }
+              : { type: 'basePity' })]
+            : [axes[0]])}
+        />
+        <Text style={{ fontSize: '12px' }}>同时扫描第二个参数 (热力图)</Text>
+      </Space>
+      {axes.length === 2 && renderAxisEditor(axes[1], 1)}
+
+      <Row gutter={[8, 8]}>
+        <Col xs={24} lg={12}>
+          <InputNumber
+            min={100}
+            precision={0}
+            value={simulations}
+            disabled={disabled || isRunning}
+            onChange={(value) => setSimulations(value || DEFAULT_SWEEP_SIMULATIONS)}
+            addonBefore="每个点模拟"
+            addonAfter="次"
+            style={{ width: '100%' }}
+          />
+        </Col>
+        <Col xs={24} lg={12}>
+          <Select
+            value={metric}
+            onChange={setMetric}
+            options={(Object.keys(METRIC_LABELS) as SweepMetric[]).map(key => ({
+              label: METRIC_LABELS[key],
+              value: key,
+              disabled: key === 'successRate' && budget === null,
+            }))}
+            style={{ width: '100%' }}
+          />
+        </Col>
+      </Row>
+
+      <Space direction="vertical" style={{ width: '100%', marginTop: 12 }}>
+        <Button
+          type="primary"
+          block
+          loading={isRunning}
+          disabled={disabled || pointCount === 0}
+          onClick={runSweepJob}
+        >
+          {isRunning ? '扫描中...' : `运行参数扫描 (${pointCount} 个点)`}
+        </Button>
+        {isRunning && <Progress percent={Math.floor(progress)} size="small" />}
+        {error && <Alert type="error" showIcon message={error} />}
+      </Space>
+
+      {result && (
+        <div style={{ marginTop: 16 }}>
+          {!hasMetric ? (
+            <Alert type="info" showIcon message="本次扫描未设置预算，无法显示预算内成功率" />
+          ) : result.axes.length === 1 ? (
+            <Line
+              data={chartData}
+              xField="x"
+              yField="value"
+              height={300}
+              point={{ size: 3 }}
+              tooltip={{
+                title: (d: { x: number }) => `${formatSweepParameter(result.axes[0].parameter)}: ${d.x}`,
+                items: [{ field: 'value', name: METRIC_LABELS[metric], valueFormatter: (value: number) => value.toFixed(2) }],
+              }}
+              axis={{
+                x: { title: formatSweepParameter(result.axes[0].parameter) },
+                y: { title: METRIC_LABELS[metric] },
+              }}
+            />
+          ) : (
+            <Heatmap
+              data={chartData}
+              xField="x"
+              yField="y"
+              colorField="value"
+              mark="cell"
+              height={360}
+              label={{ text: (d: { value: number }) => d.value.toFixed(1), style: { fontSize: 10 } }}
+              tooltip={{
+                items: [{ field: 'value', name: METRIC_LABELS[metric], valueFormatter: (value: number) => value.toFixed(2) }],
+              }}
+              axis={{
+                x: { title: formatSweepParameter(result.axes[0].parameter) },
+                y: { title: formatSweepParameter(result.axes[1].parameter) },
+              }}
+            />
+          )}
+          <Text type="secondary" style={{ fontSize: '12px', marginTop: 4, display: 'block' }}>
+            * 所有点使用相同的随机种子 ({result.seed})；扫描目标数量时直接指定数量，不再由潜能计算
+          </Text>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default SweepPanel;
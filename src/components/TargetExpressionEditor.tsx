@@ -0,0 +1,143 @@
+import React from 'react';
+import { Button, InputNumber, Select, Space, Typography } from 'antd';
+import { DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import type { TargetExpression } from '../utils/targetExpression';
+
+const { Text } = Typography;
+
+type GroupType = Exclude<TargetExpression['type'], 'operator'>;
+type GroupExpression = Extract<TargetExpression, { children: TargetExpression[] }>;
+
+// 分组类型的显示名称
+const GROUP_LABELS: Record<GroupType, string> = {
+  all: '全部满足',
+  any: '任意一项满足',
+  atLeast: '至少k项满足',
+};
+
+interface TargetExpressionEditorProps {
+  expression: TargetExpression;
+  operatorNames: string[];
+  disabled?: boolean;
+  onChange: (expression: TargetExpression) => void;
+  onRemove?: () => void; // 根节点不可删除
+}
+
+/**
+ * 目标条件编辑器 - 递归编辑表达式树，叶节点为 "干员 ≥ 数量"，分组节点组合子条件
+ */
+const TargetExpressionEditor: React.FC<TargetExpressionEditorProps> = ({
+  expression,
+  operatorNames,
+  disabled = false,
+  onChange,
+  onRemove,
+}) => {
+  const removeButton = onRemove && (
+    <Button type="text" danger size="small" disabled={disabled} icon={<DeleteOutlined />} onClick={onRemove} />
+  );
+
+  if (expression.type === 'operator') {
+    return (
+      <Space>
+        <Select
+          value={expression.name}
+          disabled={disabled}
+          onChange={(name: string) => onChange({ ...expression, name })}
+          options={operatorNames.map(name => ({ label: name, value: name }))}
+          style={{ minWidth: 120 }}
+        />
+        <Text>≥</Text>
+        <InputNumber
+          min={1}
+          precision={0}
+          value={expression.count}
+          disabled={disabled}
+          onChange={(value) => onChange({ ...expression, count: value || 1 })}
+          style={{ width: 80 }}
+        />
+        {removeButton}
+      </Space>
+    );
+  }
+
+  const changeType = (type: GroupType) => {
+    if (type === 'atLeast') {
+      onChange({ type, k: Math.min(2, expression.children.length) || 1, children: expression.children });
+    } else {
+      onChange({ type, children: expression.children });
+    }
+  };
+
+  const updateChildren = (children: TargetExpression[]) => {
+    // 删除子条件后 k 不能超过子条件数量
+    if (expression.type === 'atLeast') {
+      onChange({ ...expression, k: Math.max(1, Math.min(expression.k, children.length)), children });
+    } else {
+      onChange({ ...expression, children } as GroupExpression);
+    }
+  };
+
+  const newLeaf: TargetExpression = { type: 'operator', name: operatorNames[0] ?? '', count: 1 };
+
+  return (
+    <div style={{ borderLeft: '2px solid #d9d9d9', paddingLeft: 8 }}>
+      <Space style={{ marginBottom: 4 }}>
+        <Select
+          value={expression.type}
+          disabled={disabled}
+          onChange={changeType}
+          options={Object.entries(GROUP_LABELS).map(([value, label]) => ({ label, value }))}
+          style={{ minWidth: 130 }}
+        />
+        {expression.type === 'atLeast' && (
+          <InputNumber
+            min={1}
+            max={Math.max(1, expression.children.length)}
+            precision={0}
+            value={expression.k}
+            disabled={disabled}
+            onChange={(value) => onChange({ ...expression, k: value || 1 })}
+            addonBefore="k"
+            style={{ width: 100 }}
+          />
+        )}
+        {removeButton}
+      </Space>
+      <Space direction="vertical" style={{ width: '100%' }}>
+        {expression.children.map((child, index) => (
+          <TargetExpressionEditor
+            key={index}
+            expression={child}
+            operatorNames={operatorNames}
+            disabled={disabled}
+            onChange={(updated) => updateChildren(expression.children.map((c, i) => (i === index ? updated : c)))}
+            onRemove={() => updateChildren(expression.children.filter((_, i) => i !== index))}
+          />
+        ))}
+        <Space>
+          <Button
+            type="dashed"
+            size="small"
+            disabled={disabled}
+            icon={<PlusOutlined />}
+            onClick={() => updateChildren([...expression.children, newLeaf])}
+          >
+            添加条件
+          </Button>
+          <Button
+            type="dashed"
+            size="small"
+            disabled={disabled}
+            icon={<PlusOutlined />}
+            onClick={() => updateChildren([...expression.children, { type: 'any', children: [newLeaf] }])}
+          >
+            添加分组
+          </Button>
+        </Space>
+      </Space>
+    </div>
+  );
+};
+
+export default TargetExpressionEditor;
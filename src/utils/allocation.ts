@@ -0,0 +1,153 @@
+/**
+ * 多卡池资源分配
+ * 在共用的抽数预算下搜索每个卡池的抽取策略 (跳过 / 最多N抽 / 抽到完成目标)，
+ * 通过多卡池模拟评估每种组合的期望价值与必需目标的达成概率
+ */
+
+import { validateCampaign, type CampaignBanner } from './campaign';
+import { evaluateAllocations } from './gacha';
+import { generateSeed } from './random';
+import { getExpressionTargets } from './targetExpression';
+
+/**
+ * 单个卡池的抽取策略
+ */
+export type AllocationPolicy =
+  | { type: 'skip' } // 跳过
+  | { type: 'upTo'; draws: number } // 最多抽 draws 抽，完成目标即停止
+  | { type: 'untilTarget' }; // 抽到完成目标或用尽预算
+
+/**
+ * 参与分配的卡池 - 各目标干员达到目标数量时计入价值
+ */
+export interface AllocationBanner extends CampaignBanner {
+  values: { [name: string]: number }; // 目标干员 -> 达到目标时的价值
+  mustHave: string[]; // 必需达到目标的干员
+}
+
+/**
+ * 优化目标
+ */
+export type AllocationObjective = 'expectedValue' | 'mustHaveProbability';
+
+/**
+ * 一组策略的评估结果
+ */
+export interface AllocationResult {
+  policies: AllocationPolicy[]; // 与卡池顺序一致
+  expectedValue: number; // 期望价值
+  mustHaveProbability: number; // 所有必需干员都达到目标的概率 (百分比)
+  bannerSuccessRates: number[]; // 各卡池完成目标条件的概率 (百分比)，跳过的卡池为0
+  averageDraws: number; // 平均使用的总抽数
+}
+
+// 搜索的策略组合数量上限
+const MAX_POLICY_COMBINATIONS = 2000;
+
+/**
+ * 将策略格式化为可读文本
+ * @param policy - 抽取策略
+ * @returns 文本
+ */
+export function formatAllocationPolicy(policy: AllocationPolicy): string {
+  switch (policy.type) {
+    case 'skip':
+      return '跳过';
+    case 'upTo':
+      return `最多${policy.draws}抽`;
+    case 'untilTarget':
+      return '抽到完成';
+  }
+}
+
+/**
+ * 生成单个卡池可选的策略 - "最多N抽" 的 N 取 capStep 的倍数且小于总预算
+ * @param totalBudget - 总抽数预算
+ * @param capStep - "最多N抽" 的抽数间隔
+ * @returns 可选策略
+ */
+export function getPolicyOptions(totalBudget: number, capStep: number): AllocationPolicy[] {
+  const options: AllocationPolicy[] = [{ type: 'skip' }];
+  for (let draws = capStep; draws < totalBudget; draws += capStep) {
+    options.push({ type: 'upTo', draws });
+  }
+  options.push({ type: 'untilTarget' });
+  return options;
+}
+
+/**
+ * 获取卡池中各干员的目标数量 - 与目标条件一致
+ * @param banner - 卡池
+ * @returns 干员名称 -> 目标数量
+ */
+export function getBannerTargets(banner: CampaignBanner): { [name: string]: number } {
+  if (banner.goal) {
+    return getExpressionTargets(banner.goal);
+  }
+  const targets: { [name: string]: number } = {};
+  Object.keys(banner.operatorConfig).forEach(name => {
+    targets[name] = banner.operatorConfig[name].target;
+  });
+  return targets;
+}
+
+/**
+ * 搜索所有策略组合并按优化目标排序
+ * @param banners - 卡池 (按抽卡顺序)
+ * @param totalBudget - 总抽数预算
+ * @param objective - 优化目标，另一项指标用于打破平局
+ * @param n - 每组策略的模拟次数
+ * @param capStep - "最多N抽" 的抽数间隔
+ * @param initialPity - 各继承组的初始保底
+ * @param progressCallback - 进度回调函数
+ * @param seed - 随机种子
+ * @param signal - 取消信号 (可选)，触发后以 AbortError 结束
+ * @returns Promise<按优化目标从高到低排序的结果>
+ * @throws 规划不合法或策略组合过多时抛出错误
+ */
+export async function optimizeAllocation(
+  banners: AllocationBanner[],
+  totalBudget: number,
+  objective: AllocationObjective = 'expectedValue',
+  n: number = 1000,
+  capStep: number = 50,
+  initialPity?: { [group: string]: number },
+  progressCallback?: (progress: number) => void,
+  seed: number = generateSeed(),
+  signal?: AbortSignal
+): Promise<{ results: AllocationResult[]; seed: number }> {
+  validateCampaign({ banners, initialPity, totalBudget });
+  if (!Number.isInteger(capStep) || capStep < 1) {
+    throw new Error('抽数间隔必须为正整数');
+  }
+
+  const options = getPolicyOptions(totalBudget, capStep);
+  const combinations = Math.pow(options.length, banners.length);
+  if (combinations > MAX_POLICY_COMBINATIONS) {
+    throw new Error(`策略组合数量 (${combinations}) 超过上限 ${MAX_POLICY_COMBINATIONS}，请减少卡池数量或增大抽数间隔`);
+  }
+  console.log(`[Allocation] 开始搜索分配策略: ${combinations} 种组合, 每种 ${n} 次模拟, 种子 ${seed}`);
+
+  const policyCombinations: AllocationPolicy[][] = [];
+  for (let combination = 0; combination < combinations; combination++) {
+    // 将组合序号展开为各卡池的策略
+    const policies: AllocationPolicy[] = [];
+    let rest = combination;
+    for (let i = 0; i < banners.length; i++) {
+      policies.push(options[rest % options.length]);
+      rest = Math.floor(rest / options.length);
+    }
+    policyCombinations.push(policies);
+  }
+
+  // 每组策略在Worker池中并行评估
+  const results = await evaluateAllocations(banners, policyCombinations, totalBudget, n, seed, initialPity, progressCallback, signal);
+
+  const primary = (result: AllocationResult) => objective === 'expectedValue' ? result.expectedValue : result.mustHaveProbability;
+  const secondary = (result: AllocationResult) => objective === 'expectedValue' ? result.mustHaveProbability : result.expectedValue;
+  // 指标相同时优先使用更少的抽数
+  results.sort((a, b) => primary(b) - primary(a) || secondary(b) - secondary(a) || a.averageDraws - b.averageDraws);
+
+  console.log('[Allocation] 分配策略搜索完成');
+  return { results, seed };
+}
@@ -0,0 +1,318 @@
+/**
+ * 卡池规则定义
+ * 6星基础概率、软保底与硬保底参数，由主线程、Worker 与 GPU 三种计算方式共用
+ */
+
+/**
+ * 干员稀有度
+ */
+export type Rarity = 3 | 4 | 5 | 6;
+
+/**
+ * 各稀有度的出货计数
+ */
+export type RarityCounts = Record<Rarity, number>;
+
+/**
+ * UP规则 - 出6星时先判定是否为UP，再在组内按权重选择干员
+ */
+export interface RateUpRule {
+  upShare: number; // UP干员合计占6星的比例 (百分比)
+  offRatePoolSize: number; // 非UP 6星池的干员总数 (包含配置中未标记UP的干员)
+}
+
+/**
+ * 寻访参数兑换规则 - 每抽获得1点，累计到阈值后可兑换一名目标干员
+ */
+export interface SparkRule {
+  threshold: number; // 兑换所需点数 (限定寻访为300)
+  maxRedemptions: number; // 单次模拟中最多兑换次数
+}
+
+/**
+ * 首次UP保底规则 - 前 pullLimit 抽内未获得UP干员时，第 pullLimit 抽必定为UP 6星
+ */
+export interface GuaranteeRule {
+  pullLimit: number; // 联动寻访为120，部分常驻寻访为150
+}
+
+/**
+ * 保底继承规则 - 同一继承组的卡池之间继承已累计未出6星的抽数 (如标准寻访之间、限定寻访之间)
+ */
+export interface PityCarryRule {
+  group: string; // 继承组名称
+}
+
+/**
+ * 判定所需的干员配置字段
+ */
+export interface OperatorPoolConfig {
+  [name: string]: {
+    weight: number;
+    up?: boolean;
+  };
+}
+
+/**
+ * 两阶段选择所用的干员分组
+ */
+export interface OperatorPools {
+  upShare: number; // 选中UP组的概率 (百分比)
+  upOperators: string[];
+  upWeights: number[];
+  offRateOperators: string[];
+  offRateWeights: number[];
+}
+
+/**
+ * 非UP池中未单独配置的干员合并后的名称
+ */
+export const OFF_RATE_POOL_NAME = '池内其他6星';
+
+/**
+ * 卡池规则
+ * 概率均以百分比表示 (2 表示 2%)
+ */
+export interface BannerRuleset {
+  baseRate: number; // 6星基础概率
+  softPityStart: number; // 连续未出6星达到此抽数后开始提升概率
+  rampStep: number; // 软保底后每抽提升的概率
+  hardCap: number; // 硬保底：连续未出6星的第 hardCap 抽必出6星
+  rarityWeights: Record<Exclude<Rarity, 6>, number>; // 5/4/3星基础概率，6星概率提升时按比例缩减
+  rateUp?: RateUpRule; // 未设置时所有干员按权重直接选择
+  spark?: SparkRule; // 未设置时不进行兑换
+  guarantee?: GuaranteeRule; // 未设置时没有首次UP保底
+  carry?: PityCarryRule; // 未设置时保底不继承：从0开始，结束时剩余的保底不带入之后的卡池
+}
+
+/**
+ * 明日方舟默认规则：2/8/50/40 的6/5/4/3星概率，50抽后每抽6星+2%，第99抽必出
+ */
+export const DEFAULT_BANNER_RULESET: BannerRuleset = {
+  baseRate: 2,
+  softPityStart: 50,
+  rampStep: 2,
+  hardCap: 99,
+  rarityWeights: { 5: 8, 4: 50, 3: 40 },
+};
+
+/**
+ * 创建空的稀有度计数
+ */
+export function createRarityCounts(): RarityCounts {
+  return { 3: 0, 4: 0, 5: 0, 6: 0 };
+}
+
+/**
+ * 计算下一抽的6星概率
+ * @param pity - 已累计未出6星的抽数
+ * @param rules - 卡池规则
+ * @returns 6星概率 (百分比)
+ */
+export function getSixStarRate(pity: number, rules: BannerRuleset): number {
+  if (pity + 1 >= rules.hardCap) {
+    return 100;
+  }
+  if (pity < rules.softPityStart) {
+    return rules.baseRate;
+  }
+  return Math.min(100, rules.baseRate + (pity - rules.softPityStart + 1) * rules.rampStep);
+}
+
+/**
+ * 在未出6星的前提下决定稀有度
+ * @param rules - 卡池规则
+ * @param random - [0, 1) 均匀随机数
+ * @returns 5/4/3星
+ */
+export function rollNonSixStarRarity(rules: BannerRuleset, random: number): Exclude<Rarity, 6> {
+  const { 5: five, 4: four, 3: three } = rules.rarityWeights;
+  let rest = random * (five + four + three);
+  if (rest < five) return 5;
+  rest -= five;
+  return rest < four ? 4 : 3;
+}
+
+/**
+ * 单抽稀有度判定 - 6星概率随保底提升，其余稀有度按权重分配剩余概率
+ * @param pity - 已累计未出6星的抽数
+ * @param rules - 卡池规则
+ * @param random - [0, 1) 均匀随机数
+ * @returns 本抽稀有度
+ */
+export function rollRarity(pity: number, rules: BannerRuleset, random: number): Rarity {
+  const sixStarRate = getSixStarRate(pity, rules);
+  const roll = random * 100;
+  if (roll < sixStarRate) {
+    return 6;
+  }
+  return rollNonSixStarRarity(rules, (roll - sixStarRate) / (100 - sixStarRate));
+}
+
+/**
+ * 根据UP规则将干员划分为UP组与非UP组
+ * 未设置UP规则时所有干员归入同一组，按权重选择
+ * @param operatorConfig - 干员配置
+ * @param rules - 卡池规则
+ * @returns 干员分组
+ * @throws 配置与UP规则不匹配时抛出错误
+ */
+export function resolveOperatorPools(operatorConfig: OperatorPoolConfig, rules: BannerRuleset): OperatorPools {
+  const names = Object.keys(operatorConfig);
+
+  if (!rules.rateUp) {
+    return {
+      upShare: 100,
+      upOperators: names,
+      upWeights: names.map(name => operatorConfig[name].weight),
+      offRateOperators: [],
+      offRateWeights: [],
+    };
+  }
+
+  const upOperators = names.filter(name => operatorConfig[name].up);
+  const offRateOperators = names.filter(name => !operatorConfig[name].up);
+  if (upOperators.length === 0) {
+    throw new Error('启用UP规则时至少需要标记一名UP干员');
+  }
+  if (offRateOperators.length > rules.rateUp.offRatePoolSize) {
+    throw new Error(`非UP干员数量 (${offRateOperators.length}) 超过了非UP池大小 (${rules.rateUp.offRatePoolSize})`);
+  }
+
+  // 非UP池内每名干员等概率，未单独配置的干员合并为一项
+  const offRateWeights = offRateOperators.map(() => 1);
+  const remainingPoolSize = rules.rateUp.offRatePoolSize - offRateOperators.length;
+  if (remainingPoolSize > 0) {
+    offRateOperators.push(OFF_RATE_POOL_NAME);
+    offRateWeights.push(remainingPoolSize);
+  }
+
+  return {
+    upShare: offRateOperators.length > 0 ? rules.rateUp.upShare : 100,
+    upOperators,
+    upWeights: upOperators.map(name => operatorConfig[name].weight),
+    offRateOperators,
+    offRateWeights,
+  };
+}
+
+/**
+ * 获取首次UP保底可能给出的干员 - 即标记为UP的干员，按权重选择
+ * @param operatorConfig - 干员配置
+ * @returns UP干员及其权重
+ * @throws 没有标记UP干员时抛出错误
+ */
+export function getGuaranteedOperators(operatorConfig: OperatorPoolConfig): { operators: string[]; weights: number[] } {
+  const operators = Object.keys(operatorConfig).filter(name => operatorConfig[name].up);
+  if (operators.length === 0) {
+    throw new Error('启用首次UP保底时至少需要标记一名UP干员');
+  }
+  return { operators, weights: operators.map(name => operatorConfig[name].weight) };
+}
+
+/**
+ * 将两阶段选择展开为每名干员的最终概率
+ * @param pools - 干员分组
+ * @returns 干员名称 -> 出6星时被选中的概率 (0-1)
+ */
+export function getOperatorProbabilities(pools: OperatorPools): { [name: string]: number } {
+  const probabilities: { [name: string]: number } = {};
+  const upTotal = pools.upWeights.reduce((sum, weight) => sum + weight, 0);
+  const offRateTotal = pools.offRateWeights.reduce((sum, weight) => sum + weight, 0);
+
+  pools.upOperators.forEach((name, i) => {
+    probabilities[name] = (pools.upShare / 100) * (pools.upWeights[i] / upTotal);
+  });
+  pools.offRateOperators.forEach((name, i) => {
+    probabilities[name] = (1 - pools.upShare / 100) * (pools.offRateWeights[i] / offRateTotal);
+  });
+
+  return probabilities;
+}
+
+/**
+ * 选择寻访参数兑换的干员 - 尚未达成目标的干员中优先选择排在前面的一名
+ * 启用UP规则时只能兑换UP干员
+ * @param operatorConfig - 干员配置
+ * @param statistic - 当前各干员获得数量
+ * @param rules - 卡池规则
+ * @returns 兑换的干员名称，没有需要兑换的干员时返回 null
+ */
+export function pickSparkTarget(
+  operatorConfig: { [name: string]: { target: number; up?: boolean } },
+  statistic: { [name: string]: number },
+  rules: BannerRuleset
+): string | null {
+  for (const name of Object.keys(operatorConfig)) {
+    const { target, up } = operatorConfig[name];
+    if (target > 0 && statistic[name] < target && (!rules.rateUp || up)) {
+      return name;
+    }
+  }
+  return null;
+}
+
+/**
+ * 计算从指定保底开始出6星所需抽数的概率分布
+ * @param rules - 卡池规则
+ * @param basePity - 已累计未出6星的抽数
+ * @returns pmf[k] 为第 k+1 抽出6星的概率
+ */
+export function getSixStarPmf(rules: BannerRuleset, basePity: number = 0): Float64Array {
+  const pmf = new Float64Array(Math.max(1, rules.hardCap - basePity));
+  let survival = 1.0; // 尚未出6星的概率
+
+  for (let i = 0; i < pmf.length; i++) {
+    const p = getSixStarRate(basePity + i, rules) / 100;
+    pmf[i] = survival * p;
+    survival *= 1 - p;
+    if (survival <= 0) break;
+  }
+
+  return pmf;
+}
+
+/**
+ * 校验卡池规则
+ * @throws 参数不合法时抛出错误
+ */
+export function validateBannerRuleset(rules: BannerRuleset): void {
+  if (!(rules.baseRate > 0 && rules.baseRate <= 100)) {
+    throw new Error('6星基础概率必须在 (0, 100] 之间');
+  }
+  if (!(rules.rampStep >= 0)) {
+    throw new Error('软保底概率增量不能为负数');
+  }
+  if (!Number.isInteger(rules.hardCap) || rules.hardCap < 1) {
+    throw new Error('硬保底抽数必须为正整数');
+  }
+  if (!Number.isInteger(rules.softPityStart) || rules.softPityStart < 0) {
+    throw new Error('软保底起始抽数必须为非负整数');
+  }
+  const { 5: five, 4: four, 3: three } = rules.rarityWeights;
+  if (!(five >= 0 && four >= 0 && three >= 0 && five + four + three > 0)) {
+    throw new Error('5/4/3星概率不能为负数且不能全部为0');
+  }
+  if (rules.rateUp) {
+    if (!(rules.rateUp.upShare > 0 && rules.rateUp.upShare <= 100)) {
+      throw new Error('UP占比必须在 (0, 100] 之间');
+    }
+    if (!Number.isInteger(rules.rateUp.offRatePoolSize) || rules.rateUp.offRatePoolSize < 0) {
+      throw new Error('非UP池大小必须为非负整数');
+    }
+  }
+  if (rules.spark) {
+    if (!Number.isInteger(rules.spark.threshold) || rules.spark.threshold < 1) {
+      throw new Error('寻访参数兑换阈值必须为正整数');
+    }
+    if (!Number.isInteger(rules.spark.maxRedemptions) || rules.spark.maxRedemptions < 0) {
+      throw new Error('寻访参数兑换次数必须为非负整数');
+    }
+  }
+  if (rules.guarantee && (!Number.isInteger(rules.guarantee.pullLimit) || rules.guarantee.pullLimit < 1)) {
+    throw new Error('首次UP保底抽数必须为正整数');
+  }
+  if (rules.carry && rules.carry.group.trim() === '') {
+    throw new Error('保底继承组名称不能为空');
+  }
+}
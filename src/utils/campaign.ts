@@ -0,0 +1,168 @@
+/**
+ * 多卡池规划
+ * 按顺序模拟多个卡池，每次模拟中同一继承组的卡池之间继承已累计未出6星的抽数
+ */
+
+import { runCampaignChunks, validateBudget } from './gacha';
+import { resolveOperatorPools, validateBannerRuleset, type BannerRuleset } from './bannerRuleset';
+import { generateSeed } from './random';
+import { validateTargetExpression, type TargetExpression } from './targetExpression';
+import type { OperatorConfig } from './potential';
+
+/**
+ * 规划中的单个卡池
+ */
+export interface CampaignBanner {
+  name: string;
+  operatorConfig: OperatorConfig;
+  rules: BannerRuleset; // rules.carry 决定保底是否继承
+  goal?: TargetExpression; // 未指定时所有目标干员都需达到目标
+  budget?: number; // 抽数预算，未指定时抽到完成目标为止
+}
+
+/**
+ * 多卡池规划
+ */
+export interface Campaign {
+  banners: CampaignBanner[]; // 按抽卡顺序排列
+  initialPity?: { [group: string]: number }; // 各继承组当前已累计未出6星的抽数
+  totalBudget?: number; // 所有卡池共用的抽数预算，用尽后之后的卡池不再抽取
+}
+
+/**
+ * 单次模拟中某卡池的结果
+ */
+export interface CampaignBannerResult {
+  draws: number;
+  completed: boolean;
+  startPity: number; // 开始时继承的保底
+  pity: number; // 结束时剩余的保底
+  statistic: { [name: string]: number }; // 各干员获得数量
+}
+
+/**
+ * Worker 返回的一块多卡池模拟的汇总结果，数组与卡池顺序一致
+ */
+export interface CampaignChunkResult {
+  simulations: number;
+  completedCounts: number[];
+  drawsSums: number[];
+  startPitySums: number[];
+  endPityCounts: number[][]; // 结束时剩余保底 -> 模拟次数
+  allCompleted: number; // 所有卡池都完成目标条件的模拟次数
+}
+
+/**
+ * 单个卡池的统计
+ */
+export interface CampaignBannerStats {
+  name: string;
+  successRate: number; // 完成该卡池目标条件的模拟占比 (百分比)
+  averageDraws: number; // 平均使用抽数
+  averageStartPity: number;
+  averageEndPity: number;
+  endPityDistribution: { pity: number; simulations: number; percentage: number }[]; // 结束时剩余保底的分布
+}
+
+/**
+ * 多卡池统计结果
+ */
+export interface CampaignStatistics {
+  totalSimulations: number;
+  seed: number;
+  successRate: number; // 所有卡池都完成目标条件的模拟占比 (百分比)
+  banners: CampaignBannerStats[];
+}
+
+/**
+ * 校验多卡池规划
+ * @param campaign - 多卡池规划
+ * @throws 规划不合法时抛出错误，错误信息包含卡池名称
+ */
+export function validateCampaign(campaign: Campaign): void {
+  if (campaign.banners.length === 0) {
+    throw new Error('多卡池规划中至少需要一个卡池');
+  }
+  campaign.banners.forEach(banner => {
+    try {
+      validateBannerRuleset(banner.rules);
+      resolveOperatorPools(banner.operatorConfig, banner.rules);
+      if (banner.goal) {
+        validateTargetExpression(banner.goal, banner.operatorConfig);
+      }
+      validateBudget(banner.budget);
+    } catch (error) {
+      throw new Error(`卡池 "${banner.name}"：${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  validateBudget(campaign.totalBudget);
+  Object.entries(campaign.initialPity ?? {}).forEach(([group, pity]) => {
+    // 初始保底须小于该继承组内所有卡池的硬保底
+    const hardCaps = campaign.banners.filter(banner => banner.rules.carry?.group === group).map(banner => banner.rules.hardCap);
+    const maxPity = hardCaps.length > 0 ? Math.min(...hardCaps) - 1 : Infinity;
+    if (!Number.isInteger(pity) || pity < 0 || pity > maxPity) {
+      throw new Error(maxPity === Infinity
+        ? `继承组 "${group}" 的初始保底必须为非负整数`
+        : `继承组 "${group}" 的初始保底必须为 0-${maxPity} 的整数`);
+    }
+  });
+}
+
+/**
+ * 运行多卡池模拟 - 按序号区间分块在Worker池中并行执行，单次模拟由 public/simulation-worker.js 中的 simulateCampaign 执行
+ * @param n - 模拟次数
+ * @param campaign - 多卡池规划
+ * @param progressCallback - 进度回调函数
+ * @param seed - 随机种子，第 i 次模拟使用流 i
+ * @param signal - 取消信号 (可选)，触发后以 AbortError 结束
+ * @returns Promise<多卡池统计结果>
+ */
+export async function runCampaignSimulation(
+  n: number,
+  campaign: Campaign,
+  progressCallback?: (progress: number) => void,
+  seed: number = generateSeed(),
+  signal?: AbortSignal
+): Promise<CampaignStatistics> {
+  validateCampaign(campaign);
+  console.log(`[Campaign] 开始多卡池模拟: ${campaign.banners.length} 个卡池, ${n} 次模拟, 种子 ${seed}`);
+
+  const bannerCount = campaign.banners.length;
+  const completedCounts = new Array<number>(bannerCount).fill(0);
+  const drawsSums = new Array<number>(bannerCount).fill(0);
+  const startPitySums = new Array<number>(bannerCount).fill(0);
+  // 剩余保底不会超过硬保底抽数
+  const endPityBuckets = campaign.banners.map(banner => new Array<number>(banner.rules.hardCap).fill(0));
+  let allCompleted = 0;
+
+  const chunks = await runCampaignChunks(n, campaign, seed, progressCallback, signal);
+  chunks.forEach(chunk => {
+    for (let index = 0; index < bannerCount; index++) {
+      completedCounts[index] += chunk.completedCounts[index];
+      drawsSums[index] += chunk.drawsSums[index];
+      startPitySums[index] += chunk.startPitySums[index];
+      chunk.endPityCounts[index].forEach((simulations, pity) => {
+        endPityBuckets[index][pity] += simulations;
+      });
+    }
+    allCompleted += chunk.allCompleted;
+  });
+
+  const banners: CampaignBannerStats[] = campaign.banners.map((banner, index) => {
+    const endPityDistribution = endPityBuckets[index]
+      .map((simulations, pity) => ({ pity, simulations, percentage: (simulations / n) * 100 }))
+      .filter(entry => entry.simulations > 0);
+    const endPitySum = endPityDistribution.reduce((sum, entry) => sum + entry.pity * entry.simulations, 0);
+    return {
+      name: banner.name,
+      successRate: (completedCounts[index] / n) * 100,
+      averageDraws: drawsSums[index] / n,
+      averageStartPity: startPitySums[index] / n,
+      averageEndPity: endPitySum / n,
+      endPityDistribution,
+    };
+  });
+
+  console.log('[Campaign] 多卡池模拟完成');
+  return { totalSimulations: n, seed, successRate: (allCompleted / n) * 100, banners };
+}
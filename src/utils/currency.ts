@@ -0,0 +1,91 @@
+/**
+ * 寻访资源换算
+ * 合成玉、源石、寻访凭证与十连寻访凭证与抽数之间的换算
+ */
+
+// 单抽消耗的合成玉
+export const ORUNDUM_PER_DRAW = 600;
+
+// 1 源石可兑换的合成玉
+export const ORUNDUM_PER_PRIME = 180;
+
+// 1 张十连寻访凭证对应的抽数
+export const DRAWS_PER_TEN_PULL_PERMIT = 10;
+
+/**
+ * 持有的寻访资源
+ */
+export interface Resources {
+  orundum: number; // 合成玉
+  originitePrime: number; // 源石
+  permits: number; // 寻访凭证 (1 抽)
+  tenPullPermits: number; // 十连寻访凭证 (10 抽)
+}
+
+// 资源输入项，按显示顺序排列
+export const RESOURCE_FIELDS: { key: keyof Resources; label: string }[] = [
+  { key: 'orundum', label: '合成玉' },
+  { key: 'originitePrime', label: '源石' },
+  { key: 'permits', label: '寻访凭证' },
+  { key: 'tenPullPermits', label: '十连凭证' },
+];
+
+/**
+ * 计算资源可用的抽数 - 合成玉与源石合并后按整抽计算，不足一抽的部分不计入
+ * @param resources - 持有的资源
+ * @returns 可用抽数
+ */
+export function resourcesToDraws(resources: Resources): number {
+  const orundum = resources.orundum + resources.originitePrime * ORUNDUM_PER_PRIME;
+  return Math.floor(orundum / ORUNDUM_PER_DRAW)
+    + resources.permits
+    + resources.tenPullPermits * DRAWS_PER_TEN_PULL_PERMIT;
+}
+
+/**
+ * 由抽数生成等值的资源 (全部为合成玉)，用于从直接输入抽数切换到资源输入
+ * @param draws - 抽数
+ * @returns 资源
+ */
+export function drawsToResources(draws: number): Resources {
+  return { orundum: draws * ORUNDUM_PER_DRAW, originitePrime: 0, permits: 0, tenPullPermits: 0 };
+}
+
+/**
+ * 计算抽数对应的合成玉与源石
+ * @param draws - 抽数 (精确计算结果可为小数)
+ * @returns 合成玉数量，以及全部由源石兑换时所需的源石数量
+ */
+export function getDrawCost(draws: number): { orundum: number; originitePrime: number } {
+  const orundum = Math.round(draws * ORUNDUM_PER_DRAW);
+  return { orundum, originitePrime: Math.ceil(orundum / ORUNDUM_PER_PRIME) };
+}
+
+/**
+ * 计算在现有资源基础上完成指定抽数还需的源石
+ * 依次消耗十连寻访凭证、寻访凭证、合成玉与现有源石，剩余部分以源石补足
+ * @param draws - 抽数
+ * @param resources - 持有的资源
+ * @returns 还需的源石数量 (0 表示现有资源足够)
+ */
+export function getPrimeShortfall(draws: number, resources: Resources): number {
+  const permitDraws = resources.permits + resources.tenPullPermits * DRAWS_PER_TEN_PULL_PERMIT;
+  const orundumNeeded = Math.max(0, Math.ceil(draws) - permitDraws) * ORUNDUM_PER_DRAW - resources.orundum;
+  return Math.max(0, Math.ceil(orundumNeeded / ORUNDUM_PER_PRIME) - resources.originitePrime);
+}
+
+/**
+ * 将抽数格式化为资源折算文本，如 "18,000 合成玉 ≈ 100 源石"
+ * @param draws - 抽数
+ * @param resources - 持有的资源，提供时附加还需的源石
+ * @returns 文本
+ */
+export function formatDrawCost(draws: number, resources?: Resources | null): string {
+  const { orundum, originitePrime } = getDrawCost(draws);
+  const text = `${orundum.toLocaleString()} 合成玉 ≈ ${originitePrime.toLocaleString()} 源石`;
+  if (!resources) {
+    return text;
+  }
+  const shortfall = getPrimeShortfall(draws, resources);
+  return shortfall > 0 ? `${text}，还需 ${shortfall.toLocaleString()} 源石` : `${text}，现有资源足够`;
+}
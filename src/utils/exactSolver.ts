@@ -0,0 +1,35 @@
+/**
+ * 精确分布求解
+ * 保底进度、各目标干员已获得数量 (截断到目标值)、首次UP保底与寻访参数兑换状态构成有限马尔可夫链，
+ * 目标条件只依赖截断后的数量，完成状态为吸收态，
+ * 按抽数逐步推进概率分布，得到在每个抽数完成目标的精确概率
+ * 计算可能耗时数秒，求解只在Worker中执行 (public/simulation-worker.js 中的 computeExactDistribution)，此处为消息与结果的类型
+ */
+
+import type { RarityCounts } from './bannerRuleset';
+
+/**
+ * 精确求解所需的干员配置字段
+ */
+export interface ExactOperatorConfig {
+  [name: string]: {
+    weight: number;
+    target: number;
+    up?: boolean;
+  };
+}
+
+/**
+ * 精确求解结果 - 所有数值均为概率或期望值
+ */
+export interface ExactDistribution {
+  drawsProbability: { [draws: number]: number }; // 恰好在该抽数完成目标的概率
+  targetProbability: { [name: string]: { [draws: number]: number } }; // 各目标干员恰好在该抽数达到自身目标的概率
+  expectedCounts: { [name: string]: number }; // 每次完成目标时各干员的期望获得数
+  expectedRarityCounts: RarityCounts; // 各稀有度的期望出货数
+  sparkUsageProbability: number; // 使用了寻访参数兑换的概率
+  expectedSparkRedemptions: number;
+  guaranteeProbability: number; // 由首次UP保底给出UP干员的概率
+  completionProbability: number; // 完成目标条件的概率 (预算模式下可能小于1)
+  budgetOutcomes?: { [met: string]: number }; // 仅预算模式：达到目标的干员组合 (JSON数组) -> 概率
+}
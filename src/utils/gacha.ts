@@ -1,16 +1,40 @@
-import { SimulationWorkerManager, type SimulationStatistics } from './workerManager';
+import {
+  SimulationWorkerManager,
+  type ParityReport,
+  type PrecisionTarget,
+  type RunEstimate,
+  type SimulationStatistics,
+  type StrategyStats
+} from './workerManager';
+import {
+  DEFAULT_BANNER_RULESET,
+  createRarityCounts,
+  getGuaranteedOperators,
+  pickSparkTarget,
+  resolveOperatorPools,
+  rollRarity,
+  validateBannerRuleset,
+  type BannerRuleset,
+  type OperatorPools,
+  type RarityCounts
+} from './bannerRuleset';
+import { createRandom, generateSeed, type RandomSource } from './random';
+import {
+  applyTargetExpression,
+  buildDefaultTargetExpression,
+  evaluateTargetExpression,
+  validateTargetExpression,
+  type TargetExpression
+} from './targetExpression';
+import { shouldStopPulling, validatePullStrategy, type PullStrategy } from './pullStrategy';
+import type { OperatorConfig } from './potential';
+import type { Campaign, CampaignChunkResult } from './campaign';
+import type { AllocationBanner, AllocationPolicy, AllocationResult } from './allocation';
 
 /**
  * 明日方舟抽卡模拟器 - TypeScript版本
  */
 
-interface OperatorConfig {
-  [key: string]: {
-    weight: number;
-    target: number;
-  };
-}
-
 interface SimulationDetail {
   round: number;
   draws: number;
@@ -21,6 +45,12 @@ interface SimulationDetail {
 interface SimulationResult {
   total: number;
   statistic: { [key: string]: number };
+  rarityCounts: RarityCounts;
+  sparkRedemptions: number; // 寻访参数兑换次数
+  guaranteeTriggered: boolean; // 是否由首次UP保底给出UP干员
+  targetDraws: { [key: string]: number }; // 各目标干员达到目标时的抽数
+  completed: boolean; // 是否完成目标条件 (预算模式下可能在预算用尽时未完成)
+  pity: number; // 结束时已累计未出6星的抽数，用于多卡池保底继承
   details: SimulationDetail[];
 }
 
@@ -64,29 +94,30 @@ interface MultipleSimulationResult {
 }
 
 /**
- * 单次抽卡模拟 - 保底机制
+ * 单次抽卡模拟 - 保底机制，每抽独立判定稀有度
  * @param basePity - 已累计未出6星的抽数
+ * @param rules - 卡池规则
+ * @param rarityCounts - 累计途中出现的5/4/3星 (可选)
+ * @param random - 随机数源
  * @returns 抽到6星所需的抽数
  */
-export function gatcha(basePity: number = 0): number {
+export function gatcha(
+  basePity: number = 0,
+  rules: BannerRuleset = DEFAULT_BANNER_RULESET,
+  rarityCounts?: RarityCounts,
+  random: RandomSource = Math.random
+): number {
   let xunfang = basePity; // 从已累计的保底开始
-  let currentProb = basePity < 50 ? 2 : 2 + (basePity - 50) * 2; // 根据保底计算初始概率
 
-  while (xunfang < 50) {
-    const chuhuo = Math.floor(Math.random() * 100) + 1;
+  while (true) {
+    const rarity = rollRarity(xunfang, rules, random()); // 根据保底计算当前概率
     xunfang += 1;
-    if (chuhuo <= currentProb) {
+    if (rarity === 6) {
       return xunfang - basePity; // 返回本次消耗的抽数
     }
-  }
-
-  while (true) {
-    currentProb += 2;
-    const chuhuo = Math.floor(Math.random() * 100) + 1;
-    if (chuhuo <= currentProb) {
-      return xunfang - basePity; // 返回本次消耗的抽数
+    if (rarityCounts) {
+      rarityCounts[rarity] += 1;
     }
-    xunfang += 1;
   }
 }
 
@@ -94,15 +125,16 @@ export function gatcha(basePity: number = 0): number {
  * 权重随机选择
  * @param items - 物品数组
  * @param weights - 权重数组
+ * @param random - 随机数源
  * @returns 选中的物品
  */
-function weightedChoice<T>(items: T[], weights: number[]): T {
+function weightedChoice<T>(items: T[], weights: number[], random: RandomSource): T {
   const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
-  let random = Math.random() * totalWeight;
+  let rest = random() * totalWeight;
 
   for (let i = 0; i < items.length; i++) {
-    random -= weights[i];
-    if (random <= 0) {
+    rest -= weights[i];
+    if (rest <= 0) {
       return items[i];
     }
   }
@@ -110,13 +142,39 @@ function weightedChoice<T>(items: T[], weights: number[]): T {
   return items[items.length - 1];
 }
 
+/**
+ * 两阶段干员选择 - 先判定是否为UP，再在组内按权重选择
+ * @param pools - 干员分组
+ * @param random - 随机数源
+ * @returns 选中的干员
+ */
+function selectOperator(pools: OperatorPools, random: RandomSource): string {
+  if (random() * 100 < pools.upShare) {
+    return weightedChoice(pools.upOperators, pools.upWeights, random);
+  }
+  return weightedChoice(pools.offRateOperators, pools.offRateWeights, random);
+}
+
 /**
  * 抽卡统计函数
  * @param operatorConfig - 干员配置
  * @param basePity - 已累计未出6星的抽数
+ * @param rules - 卡池规则
+ * @param random - 随机数源
+ * @param goal - 目标条件 (可选)，未指定时所有目标干员都需达到目标
+ * @param budget - 抽数预算 (可选)，用尽时即使未完成也停止
+ * @param strategy - 抽卡策略 (可选)，每抽之前判定是否提前停止
  * @returns 模拟结果
  */
-export function chouShuTongJi(operatorConfig?: OperatorConfig, basePity: number = 0): SimulationResult {
+export function chouShuTongJi(
+  operatorConfig?: OperatorConfig,
+  basePity: number = 0,
+  rules: BannerRuleset = DEFAULT_BANNER_RULESET,
+  random: RandomSource = Math.random,
+  goal?: TargetExpression,
+  budget: number = Infinity,
+  strategy?: PullStrategy
+): SimulationResult {
   // 默认配置
   if (!operatorConfig) {
     operatorConfig = {
@@ -124,34 +182,87 @@ export function chouShuTongJi(operatorConfig?: OperatorConfig, basePity: number
     };
   }
 
-  const operators = Object.keys(operatorConfig);
-  const weights = operators.map(op => operatorConfig![op].weight);
+  // 目标数量由条件决定，寻访参数兑换与单干员统计据此选择目标干员
+  if (goal) {
+    operatorConfig = applyTargetExpression(operatorConfig, goal);
+  }
+  const completionGoal = goal ?? buildDefaultTargetExpression(operatorConfig);
+
+  const pools = resolveOperatorPools(operatorConfig, rules);
+  const guaranteed = rules.guarantee ? getGuaranteedOperators(operatorConfig) : null;
 
   let total = 0;
   let currentPity = basePity; // 当前保底
+  let sparkPoints = 0; // 寻访参数
+  let sparkRedemptions = 0;
+  let upObtained = false; // 是否已获得UP干员
+  let guaranteeTriggered = false;
+  let targetObtained = false; // 是否已获得任意目标干员，用于止损策略
   const statistic: { [key: string]: number } = {};
+  const targetDraws: { [key: string]: number } = {};
+  const rarityCounts = createRarityCounts();
   // 不再保存详细信息以节省内存
   // const details: SimulationDetail[] = []; // 记录详细过程
 
-  // 初始化统计
-  operators.forEach(op => {
+  // 初始化统计 (包含非UP池中合并的干员)
+  [...pools.upOperators, ...pools.offRateOperators].forEach(op => {
     statistic[op] = 0;
   });
 
-  // 检查退出条件
-  const checkCompletion = (): boolean => {
-    return operators.every(op =>
-      operatorConfig![op].target === 0 || statistic[op] >= operatorConfig![op].target
-    );
+  // 记录干员恰好达到目标时的抽数
+  const recordTarget = (op: string): void => {
+    const target = operatorConfig![op]?.target ?? 0;
+    targetObtained = targetObtained || target > 0;
+    if (target > 0 && statistic[op] === target) {
+      targetDraws[op] = total;
+    }
   };
 
-  while (!checkCompletion()) {
-    const drawsThisRound = gatcha(currentPity);
-    total += drawsThisRound;
-    currentPity = 0; // 重置保底
+  // 检查退出条件
+  const checkCompletion = (): boolean => evaluateTargetExpression(completionGoal, statistic);
+
+  // 按策略判定是否提前停止
+  const strategyStops = (): boolean =>
+    !!strategy && shouldStopPulling(strategy, { total, sixStars: rarityCounts[6], targetObtained }, rules);
+
+  // 逐抽模拟，兑换可能发生在两次6星之间
+  let completed = checkCompletion();
+  while (!completed && total < budget && !strategyStops()) {
+    // 首次UP保底：前N抽未获得UP干员时第N抽必定为UP
+    const forceUp: boolean = guaranteed !== null && !upObtained && total + 1 === rules.guarantee!.pullLimit;
+    const rarity = forceUp ? 6 : rollRarity(currentPity, rules, random());
+    total += 1;
+    rarityCounts[rarity] += 1;
+
+    if (rarity === 6) {
+      currentPity = 0; // 重置保底
+      const selectedOperator: string = forceUp
+        ? weightedChoice(guaranteed!.operators, guaranteed!.weights, random)
+        : selectOperator(pools, random);
+      statistic[selectedOperator] += 1;
+      recordTarget(selectedOperator);
+      guaranteeTriggered = guaranteeTriggered || forceUp;
+      upObtained = upObtained || !!operatorConfig[selectedOperator]?.up;
+      completed = checkCompletion();
+    } else {
+      currentPity += 1;
+    }
 
-    const selectedOperator = weightedChoice(operators, weights);
-    statistic[selectedOperator] += 1;
+    // 寻访参数累计到阈值时兑换尚未达成目标的干员
+    if (rules.spark && !completed) {
+      sparkPoints += 1;
+      if (sparkPoints >= rules.spark.threshold && sparkRedemptions < rules.spark.maxRedemptions) {
+        const sparkTarget = pickSparkTarget(operatorConfig, statistic, rules);
+        if (sparkTarget) {
+          statistic[sparkTarget] += 1;
+          recordTarget(sparkTarget);
+          upObtained = upObtained || !!operatorConfig[sparkTarget].up;
+          sparkPoints -= rules.spark.threshold;
+          sparkRedemptions += 1;
+          completed = checkCompletion();
+        }
+      }
+    }
 
     // 不再保存详细信息以节省内存
     // details.push({
@@ -165,6 +276,12 @@ export function chouShuTongJi(operatorConfig?: OperatorConfig, basePity: number
   return {
     total,
     statistic,
+    rarityCounts,
+    sparkRedemptions,
+    guaranteeTriggered,
+    targetDraws,
+    completed,
+    pity: currentPity,
     // 不再返回details数组以节省内存
     details: []
   };
@@ -176,13 +293,19 @@ export function chouShuTongJi(operatorConfig?: OperatorConfig, basePity: number
  * @param operatorConfig - 干员配置
  * @param basePity - 已累计未出6星的抽数
  * @param progressCallback - 进度回调函数
+ * @param rules - 卡池规则
+ * @param seed - 随机种子，第 i 次模拟使用流 i，与多线程模式结果一致
+ * @param goal - 目标条件 (可选)
  * @returns Promise<模拟结果>
  */
 export async function runSimulationMultipleTimes(
   n: number = 1000,
   operatorConfig?: OperatorConfig,
   basePity: number = 0,
-  progressCallback?: (progress: number) => void
+  progressCallback?: (progress: number) => void,
+  rules: BannerRuleset = DEFAULT_BANNER_RULESET,
+  seed: number = generateSeed(),
+  goal?: TargetExpression
 ): Promise<MultipleSimulationResult> {
   const totalDraws: number[] = [];
   const characterCounts: { [key: string]: number[] } = {};
@@ -197,7 +320,7 @@ export async function runSimulationMultipleTimes(
   let lastReportedProgress = 0;
 
   for (let i = 0; i < n; i++) {
-    const result = chouShuTongJi(operatorConfig, basePity);
+    const result = chouShuTongJi(operatorConfig, basePity, rules, createRandom(seed, i), goal);
     totalDraws.push(result.total);
     allDetails.push(result.details);
 
@@ -274,6 +397,125 @@ export function onGPUStatusChange(callback: (status: { available: boolean; enabl
   return manager.onGPUStatusChange(callback);
 }
 
+/**
+ * 校验抽数预算
+ * @throws 预算不是正整数时抛出错误
+ */
+export function validateBudget(budget?: number): void {
+  if (budget !== undefined && (!Number.isInteger(budget) || budget < 1)) {
+    throw new Error('抽数预算必须为正整数');
+  }
+}
+
+/**
+ * 校验已累计未出6星的抽数
+ * @param basePity - 已累计未出6星的抽数
+ * @param rules - 卡池规则，抽数必须小于硬保底
+ * @throws 抽数不合法时抛出错误
+ */
+export function validateBasePity(basePity: number, rules: BannerRuleset = DEFAULT_BANNER_RULESET): void {
+  if (!Number.isInteger(basePity) || basePity < 0 || basePity >= rules.hardCap) {
+    throw new Error(`已累计未出6星抽数必须为 0-${rules.hardCap - 1} 的整数`);
+  }
+}
+
+/**
+ * 校验同一配置与保底下CPU与GPU模拟的抽数分布是否一致
+ * @param n - 每种计算方式的模拟次数
+ * @param operatorConfig - 干员配置
+ * @param basePity - 已累计未出6星的抽数
+ * @param rules - 卡池规则
+ * @param seed - 随机种子
+ * @returns Promise<校验结果>
+ */
+export async function checkGPUParity(
+  n: number,
+  operatorConfig: OperatorConfig,
+  basePity: number = 0,
+  rules: BannerRuleset = DEFAULT_BANNER_RULESET,
+  seed: number = generateSeed()
+): Promise<ParityReport> {
+  validateBannerRuleset(rules);
+  validateBasePity(basePity, rules);
+  const manager = getWorkerManager();
+  return manager.checkGPUParity(n, operatorConfig, basePity, rules, seed);
+}
+
+// 运行估算时实测的模拟次数
+const CALIBRATION_SIMULATIONS = 200;
+
+/**
+ * 估算运行的内存占用与耗时 - 在Worker中实测少量模拟的耗时与抽数，再按计算方式推算
+ * @param n - 模拟次数 (精度模式下为最多模拟次数)
+ * @param operatorConfig - 干员配置
+ * @param basePity - 已累计未出6星的抽数
+ * @param rules - 卡池规则
+ * @param goal - 目标条件 (可选)
+ * @param budget - 抽数预算 (可选)
+ * @param strategy - 抽卡策略 (可选)
+ * @param useGPU - 是否按GPU模式估算 (可选)，默认使用当前GPU开关状态
+ * @param useMultiThreading - 是否按多线程估算 (可选)，默认使用当前多线程开关状态
+ * @returns Promise<估算结果>
+ * @throws 配置不合法时抛出错误
+ */
+export async function estimateSimulationCost(
+  n: number,
+  operatorConfig: OperatorConfig,
+  basePity: number = 0,
+  rules: BannerRuleset = DEFAULT_BANNER_RULESET,
+  goal?: TargetExpression,
+  budget?: number,
+  strategy?: PullStrategy,
+  useGPU?: boolean,
+  useMultiThreading?: boolean
+): Promise<RunEstimate> {
+  validateBannerRuleset(rules);
+  validateBasePity(basePity, rules);
+  resolveOperatorPools(operatorConfig, rules);
+  if (goal) {
+    validateTargetExpression(goal, operatorConfig);
+  }
+  validateBudget(budget);
+  if (strategy) {
+    validatePullStrategy(strategy);
+  }
+
+  const manager = getWorkerManager();
+  const calibrationRuns = Math.max(1, Math.min(n, CALIBRATION_SIMULATIONS));
+  const { secondsPerSimulation, maxDraws } = await manager.calibrateRun(calibrationRuns, operatorConfig, basePity, rules, goal, budget, strategy);
+
+  // 少量样本观测不到分布尾部，以观测最大抽数的两倍作为上界
+  return manager.estimateRun(n, secondsPerSimulation, Math.max(maxDraws, rules.hardCap) * 2, Object.keys(operatorConfig).length, rules, useGPU, useMultiThreading);
+}
+
+/**
+ * 精确计算完成目标所需抽数的分布 - 在Worker中执行，不阻塞主线程
+ * @param operatorConfig - 干员配置
+ * @param basePity - 已累计未出6星的抽数
+ * @param rules - 卡池规则
+ * @param goal - 目标条件 (可选)
+ * @param budget - 抽数预算 (可选)
+ * @param signal - 取消信号 (可选)，触发后以 AbortError 结束
+ * @returns 统计结果 (概率形式)，状态空间过大时返回 null，此时应回退到模拟
+ */
+export async function solveExact(
+  operatorConfig: OperatorConfig,
+  basePity: number = 0,
+  rules: BannerRuleset = DEFAULT_BANNER_RULESET,
+  goal?: TargetExpression,
+  budget?: number,
+  signal?: AbortSignal
+): Promise<SimulationStatistics | null> {
+  validateBannerRuleset(rules);
+  validateBasePity(basePity, rules);
+  if (goal) {
+    validateTargetExpression(goal, operatorConfig);
+  }
+  validateBudget(budget);
+  const manager = getWorkerManager();
+  return manager.solveExact(operatorConfig, basePity, rules, goal, budget, signal);
+}
+
 /**
  * 将统计结果转换为兼容的旧格式
  */
@@ -287,16 +529,16 @@ function convertStatisticsToLegacyFormat(simulationStatistics: SimulationStatist
     }
   });
 
-  // 重建 characterCounts 格式 (每个角色一个数组)
+  // 从获得数量分布重建 characterCounts 格式 (每个角色一个数组)
+  // 注意：桶中不保留模拟之间的对应关系，数组顺序与 totalDraws 无关
   const characterCounts: { [key: string]: number[] } = {};
   Object.keys(simulationStatistics.characterStats).forEach(char => {
-    characterCounts[char] = Array(simulationStatistics.totalSimulations).fill(0);
-    // 注意：这里需要根据实际的角色获得数据来填充，暂时使用总数平均分布
-    const totalCount = simulationStatistics.characterStats[char].count;
-    const avgPerSim = totalCount / simulationStatistics.totalSimulations;
-    for (let i = 0; i < simulationStatistics.totalSimulations; i++) {
-      characterCounts[char][i] = Math.round(avgPerSim);
-    }
+    characterCounts[char] = [];
+    simulationStatistics.copyStats?.[char]?.distribution.forEach(({ copies, simulations }) => {
+      for (let i = 0; i < simulations; i++) {
+        characterCounts[char].push(copies);
+      }
+    });
   });
 
   // allDetails 暂时为空数组（因为我们没有保存详细数据）
@@ -315,13 +557,19 @@ function convertStatisticsToLegacyFormat(simulationStatistics: SimulationStatist
  * @param operatorConfig - 干员配置
  * @param basePity - 已累计未出6星的抽数
  * @param progressCallback - 进度回调函数
+ * @param rules - 卡池规则
+ * @param seed - 随机种子
+ * @param goal - 目标条件 (可选)
  * @returns Promise<模拟结果>
  */
 export async function runSimulationMultipleTimesWithWorkers(
   n: number = 1000,
   operatorConfig?: OperatorConfig,
   basePity: number = 0,
-  progressCallback?: (progress: number) => void
+  progressCallback?: (progress: number) => void,
+  rules: BannerRuleset = DEFAULT_BANNER_RULESET,
+  seed: number = generateSeed(),
+  goal?: TargetExpression
 ): Promise<MultipleSimulationResult> {
   const manager = getWorkerManager();
 
@@ -332,7 +580,7 @@ export async function runSimulationMultipleTimesWithWorkers(
   };
 
   try {
-    const simulationStatistics = await manager.runSimulation(n, config, basePity, progressCallback);
+    const simulationStatistics = await manager.runSimulation(n, config, basePity, progressCallback, rules, seed, undefined, goal);
 
     // 将统计结果转换为兼容的旧格式
     const compatibleResult: MultipleSimulationResult = convertStatisticsToLegacyFormat(simulationStatistics);
@@ -341,7 +589,7 @@ export async function runSimulationMultipleTimesWithWorkers(
   } catch (error) {
     console.error('[Gacha] 多线程模拟执行失败，回退到单线程模式:', error);
     // 回退到单线程模式
-    return runSimulationMultipleTimes(n, config, basePity, progressCallback);
+    return runSimulationMultipleTimes(n, config, basePity, progressCallback, rules, seed, goal);
   }
 }
 
@@ -351,13 +599,31 @@ export async function runSimulationMultipleTimesWithWorkers(
  * @param operatorConfig - 干员配置
  * @param basePity - 已累计未出6星的抽数
  * @param progressCallback - 进度回调函数
+ * @param rules - 卡池规则
+ * @param seed - 随机种子，相同种子、配置与计算方式得到相同结果
+ * @param precision - 精度模式目标 (可选)，此时 n 为最多模拟次数
+ * @param goal - 目标条件 (可选)，未指定时所有目标干员都需达到目标
+ * @param budget - 抽数预算 (可选)，设置后每次模拟在预算用尽时停止
+ * @param strategy - 抽卡策略 (可选)，设置后统计结果包含成功率与花费
+ * @param signal - 取消信号 (可选)，触发后停止分配任务并中止Worker与GPU计算
+ * @param partialOnAbort - 取消时是否返回已完成部分的统计 (标记为 partial)，否则以 AbortError 结束
+ * @param snapshotCallback - 快照回调 (可选)，运行中定期收到由已完成模拟计算的统计 (标记为 live)
  * @returns Promise<完整统计结果>
  */
 export async function runSimulationWithStatistics(
   n: number = 1000,
   operatorConfig?: OperatorConfig,
   basePity: number = 0,
-  progressCallback?: (progress: number) => void
+  progressCallback?: (progress: number) => void,
+  rules: BannerRuleset = DEFAULT_BANNER_RULESET,
+  seed: number = generateSeed(),
+  precision?: PrecisionTarget,
+  goal?: TargetExpression,
+  budget?: number,
+  strategy?: PullStrategy,
+  signal?: AbortSignal,
+  partialOnAbort: boolean = false,
+  snapshotCallback?: (snapshot: SimulationStatistics) => void
 ): Promise<SimulationStatistics> {
   const manager = getWorkerManager();
 
@@ -367,7 +633,127 @@ export async function runSimulationWithStatistics(
     "其它": { weight: 1, target: 0 }
   };
 
-  return manager.runSimulation(n, config, basePity, progressCallback);
+  validateBannerRuleset(rules);
+  validateBasePity(basePity, rules);
+  if (goal) {
+    validateTargetExpression(goal, config);
+  }
+  validateBudget(budget);
+  if (strategy) {
+    validatePullStrategy(strategy);
+  }
+
+  return manager.runSimulation(n, config, basePity, progressCallback, rules, seed, precision, goal, budget, strategy, signal, partialOnAbort, snapshotCallback);
+}
+
+/**
+ * 对比多个抽卡策略 - 依次使用相同的种子与配置运行模拟
+ * @param n - 每个策略的模拟次数
+ * @param operatorConfig - 干员配置
+ * @param strategies - 参与对比的策略
+ * @param basePity - 已累计未出6星的抽数
+ * @param progressCallback - 总进度回调函数
+ * @param rules - 卡池规则
+ * @param seed - 随机种子
+ * @param goal - 目标条件 (可选)
+ * @param budget - 抽数预算 (可选)
+ * @returns Promise<各策略的统计，顺序与 strategies 一致>
+ */
+export async function compareStrategies(
+  n: number,
+  operatorConfig: OperatorConfig,
+  strategies: PullStrategy[],
+  basePity: number = 0,
+  progressCallback?: (progress: number) => void,
+  rules: BannerRuleset = DEFAULT_BANNER_RULESET,
+  seed: number = generateSeed(),
+  goal?: TargetExpression,
+  budget?: number
+): Promise<StrategyStats[]> {
+  const results: StrategyStats[] = [];
+  for (let i = 0; i < strategies.length; i++) {
+    const statistics = await runSimulationWithStatistics(
+      n,
+      operatorConfig,
+      basePity,
+      progressCallback && (progress => progressCallback((i + progress / 100) / strategies.length * 100)),
+      rules,
+      seed,
+      undefined,
+      goal,
+      budget,
+      strategies[i]
+    );
+    results.push(statistics.strategyStats!);
+  }
+  return results;
+}
+
+/**
+ * 在Worker池中运行多卡池模拟
+ * @param n - 模拟次数
+ * @param campaign - 多卡池规划 (调用方已校验)
+ * @param seed - 随机种子，第 i 次模拟使用流 i
+ * @param progressCallback - 进度回调函数 (可选)
+ * @param signal - 取消信号 (可选)，触发后以 AbortError 结束
+ * @returns Promise<各块的汇总结果>
+ */
+export function runCampaignChunks(
+  n: number,
+  campaign: Campaign,
+  seed: number,
+  progressCallback?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<CampaignChunkResult[]> {
+  return getWorkerManager().runCampaignChunks(n, campaign, seed, progressCallback, signal);
+}
+
+/**
+ * 在Worker池中评估多组分配策略
+ * @param banners - 卡池 (调用方已校验)
+ * @param policyCombinations - 策略组合，每组与卡池顺序一致
+ * @param totalBudget - 总抽数预算
+ * @param n - 每组策略的模拟次数
+ * @param seed - 随机种子
+ * @param initialPity - 各继承组的初始保底 (可选)
+ * @param progressCallback - 进度回调函数 (可选)
+ * @param signal - 取消信号 (可选)，触发后以 AbortError 结束
+ * @returns Promise<与 policyCombinations 顺序一致的评估结果>
+ */
+export function evaluateAllocations(
+  banners: AllocationBanner[],
+  policyCombinations: AllocationPolicy[][],
+  totalBudget: number,
+  n: number,
+  seed: number,
+  initialPity?: { [group: string]: number },
+  progressCallback?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<AllocationResult[]> {
+  return getWorkerManager().evaluateAllocations(banners, policyCombinations, totalBudget, n, seed, initialPity, progressCallback, signal);
+}
+
+/**
+ * 预热 Worker 池 (在页面加载时调用)，后续运行无需等待Worker启动
+ */
+export function warmUpWorkers(): void {
+  getWorkerManager().warmUp();
+}
+
+/**
+ * 设置 Worker 池的空闲超时
+ * @param timeout - 没有任务时保留Worker池的时间 (毫秒)，Infinity 表示常驻
+ */
+export function setWorkerIdleTimeout(timeout: number): void {
+  getWorkerManager().setIdleTimeout(timeout);
+}
+
+/**
+ * 设置是否使用多线程
+ * @param enabled - 是否使用多线程，关闭时只使用1个Worker
+ */
+export function setMultiThreading(enabled: boolean): void {
+  getWorkerManager().setMultiThreading(enabled);
 }
 
 /**
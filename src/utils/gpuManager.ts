@@ -5,8 +5,10 @@
  * 避免GPU内IF操作，提升并行计算效率
  */
 
+import { DEFAULT_BANNER_RULESET, getSixStarPmf, type BannerRuleset } from './bannerRuleset';
+import type { RandomSource } from './random';
+
 interface GPUSimulationConfig {
-    basePity: number;
     maxPity: number;
     operatorCount: number;
 }
@@ -19,7 +21,8 @@ interface OperatorInfo {
 interface OperatorConfig {
     operators: OperatorInfo[];
     maxDraws: number;
-    basePity?: number;
+    rules?: BannerRuleset;
+    random?: RandomSource; // 随机数填充使用的随机数源，跨批次保持状态以便复现
 }
 
 interface GPUBatchResult {
@@ -49,38 +52,16 @@ export class GPUManager {
 
     /**
      * 构建概率查找表 - 出货概率表和干员权重表
-     */
-    /**
-     * 构建概率查找表 - 支持动态basePity和干员配置
-     * @param basePity 基础保底值（默认0）
+     * 出货表始终从0保底开始，已累计的保底只影响每次模拟的第一个6星，由结果消费方处理
      * @param operatorConfig 干员配置（可选，如果提供则使用实际干员权重）
      */
-    private buildProbabilityLookupTable(basePity: number = 0, operatorConfig?: OperatorConfig): void {
-        const maxPity = 100;
+    private buildProbabilityLookupTable(operatorConfig?: OperatorConfig): void {
+        const rules = operatorConfig?.rules ?? DEFAULT_BANNER_RULESET;
+        const maxPity = rules.hardCap;
         const operatorCount = operatorConfig ? operatorConfig.operators.length : 8; // 使用实际干员数量或默认8个
 
-        console.log(`[GPU] 开始构建概率查找表 (basePity: ${basePity})`);
-
-        // 构建PMF
-        const pmf = new Float32Array(maxPity);
-        let survival = 1.0;  // 存活概率
-
-        // 前50抽
-        for (let pity = 0; pity < 50; pity++) {
-            const p = 0.02;
-            pmf[pity] = survival * p;
-            survival *= (1 - p);
-        }
-
-        // 50-99抽
-        for (let pity = 50; pity < 99; pity++) {
-            const p = Math.min(1.0, 0.02 + 0.02 * (pity - 48));
-            pmf[pity] = survival * p;
-            survival *= (1 - p);
-        }
-
-        // 第100抽
-        pmf[99] = survival;
+        // 构建PMF - 与CPU共用卡池规则
+        const pmf = getSixStarPmf(rules);
 
         // 构建CDF
         const cdf = new Float32Array(maxPity);
@@ -98,22 +79,6 @@ export class GPUManager {
 
         const gachaTable = cdf;
 
-        if (basePity > 0) {
-            const normalizationFactor = 1 - gachaTable[basePity - 1];
-
-            // 使用匿名函数直接对gachaTable进行归一化
-            gachaTable.set(
-                ((slice: Float32Array, factor: number): Float32Array => {
-                    const result = new Float32Array(slice.length);
-                    for (let i = 0; i < slice.length; i++) {
-                        result[i] = slice[i] / factor;
-                    }
-                    return result;
-                })(gachaTable.slice(basePity, maxPity), normalizationFactor),
-                basePity
-            );
-        }
-
         // 根据OperatorConfig构建干员权重CDF
         // 确保至少有足够的空间存储所有干员权重
         const actualOperatorCount = operatorConfig ? operatorConfig.operators.length : 8;
@@ -121,9 +86,6 @@ export class GPUManager {
         
         if (operatorConfig && operatorConfig.operators.length > 0) {
             // 从OperatorConfig生成真实的权重CDF
-            console.log('[GPU] 从OperatorConfig构建干员权重');
-            console.log('[GPU] 干员配置:', operatorConfig.operators.map(op => `${op.name}: ${op.weight}`));
-            
             // 步骤1: 权重归一化生成PMF
             const totalWeight = operatorConfig.operators.reduce((sum, op) => sum + op.weight, 0);
             const pmf = new Float32Array(operatorCount);
@@ -132,8 +94,6 @@ export class GPUManager {
                 pmf[i] = operatorConfig.operators[i].weight / totalWeight;
             }
             
-            console.log('[GPU] 干员PMF:', Array.from(pmf.slice(0, operatorConfig.operators.length)));
-            
             // 步骤2: PMF → CDF构建查找表
             operatorWeights[0] = pmf[0];
             for (let i = 1; i < operatorConfig.operators.length; i++) {
@@ -149,11 +109,8 @@ export class GPUManager {
             for (let i = operatorConfig.operators.length; i < operatorWeights.length; i++) {
                 operatorWeights[i] = 1.0;
             }
-            
-            console.log('[GPU] 从OperatorConfig生成的CDF:', Array.from(operatorWeights));
         } else {
             // 默认均等权重的CDF: [1/n, 2/n, 3/n, ..., 1.0]
-            console.log('[GPU] 使用默认均等权重CDF');
             const defaultOperatorCount = 8;
             const equalWeight = 1.0 / defaultOperatorCount;
             for (let i = 0; i < defaultOperatorCount; i++) {
@@ -161,7 +118,6 @@ export class GPUManager {
             }
             // 确保最后一个值为1.0
             operatorWeights[defaultOperatorCount - 1] = 1.0;
-            console.log('[GPU] 默认CDF查找表:', Array.from(operatorWeights.slice(0, 8)));
         }
 
         this.probabilityLookupTable = {
@@ -170,21 +126,6 @@ export class GPUManager {
             maxPity,
             operatorCount: operatorCount // 使用实际干员数量，不强制设为8
         };
-
-        console.log(`[GPU] 概率查找表构建完成 - 出货表: ${maxPity} 项, 干员表: ${operatorCount} 项`);
-
-        // 调试输出：查找表内容
-        console.log('[GPU] 出货概率查找表');
-        console.log('[GPU] 前10抽概率:', Array.from(gachaTable.slice(0, 10)));
-        console.log('[GPU] 第45-55抽概率:', Array.from(gachaTable.slice(45, 55)));
-        console.log('[GPU] 第90-100抽概率:', Array.from(gachaTable.slice(90, 100)));
-
-        console.log('[GPU] 干员权重表');
-        if (operatorConfig) {
-            console.log(`[GPU] 实际干员CDF (${operatorConfig.operators.length}个):`, Array.from(operatorWeights.slice(0, operatorConfig.operators.length)));
-        } else {
-            console.log('[GPU] 默认CDF查找表 (8个):', Array.from(operatorWeights.slice(0, 8)));
-        }
     }
 
     /**
@@ -329,7 +270,7 @@ export class GPUManager {
         // 如果概率查找表不存在，使用默认配置构建
         if (!this.probabilityLookupTable) {
             console.log('[GPU] 概率查找表不存在，使用默认配置构建');
-            this.buildProbabilityLookupTable(0); // 使用默认basePity=0
+            this.buildProbabilityLookupTable();
         }
 
         // 优化的WebGPU着色器代码 - 纯矩阵运算，避免IF操作
@@ -343,16 +284,13 @@ export class GPUManager {
 
       // 纯矩阵运算 - 生成出货概率差值矩阵
       // 对每个概率元素减去随机值: result = gachaProb - randomValue
-      // 数据布局：每个模拟结果占用(100-basePity)个位置
-      fn generateGachaDifferences(basePity: f32, randomK1: f32, resultIndex: u32) {
-        let maxPity = u32(config[1]); // 最大保底(100)
-        let startPity = u32(basePity); // 基础保底位置
-        let drawsPerGroup = u32(config[4]); // 每组实际抽数 = maxPity - basePity
+      // 数据布局：每个模拟结果占用硬保底抽数个位置，从0保底开始
+      fn generateGachaDifferences(randomK1: f32, resultIndex: u32) {
+        let drawsPerGroup = u32(config[3]); // 每组抽数 = 硬保底抽数
         
-        // 对每个有效抽数位置执行 gachaProbability - randomK1
+        // 对每个抽数位置执行 gachaProbability - randomK1
         for (var i: u32 = 0u; i < drawsPerGroup; i++) {
-          let actualPity = startPity + i; // 实际保底位置 = basePity + i
-          let gachaProbability = gachaTable[actualPity];
+          let gachaProbability = gachaTable[i];
           
           // 正数表示出货，负数表示未出货
           let differenceValue = gachaProbability - randomK1;
@@ -392,12 +330,9 @@ export class GPUManager {
         let randomK1 = randomNumbers[index * 2u];     // K1用于抽卡判断
         let randomK2 = randomNumbers[index * 2u + 1u]; // K2用于干员选择
         
-        // 读取配置
-        let basePity = config[3]; // 基础保底
-        
         // GPU执行纯矩阵差值计算，无IF操作
         // 结果按模拟分组：每个模拟的抽卡结果连续存储，干员结果连续存储
-        generateGachaDifferences(basePity, randomK1, index);
+        generateGachaDifferences(randomK1, index);
         generateOperatorDifferences(randomK2, index);
       }
     `;
@@ -442,8 +377,7 @@ export class GPUManager {
         }
 
         // 根据配置重新构建概率查找表（包含干员权重）
-        console.log(`[GPU] 重新构建概率查找表 (basePity=${config.basePity})`);
-        this.buildProbabilityLookupTable(config.basePity, operatorConfig);
+        this.buildProbabilityLookupTable(operatorConfig);
         
         if (!this.probabilityLookupTable) {
             throw new Error('概率查找表构建失败');
@@ -452,11 +386,10 @@ export class GPUManager {
         const actualBatchSize = Math.min(batchSize, this.maxBatchSize);
         const maxPity = this.probabilityLookupTable.maxPity;
         const operatorCount = this.probabilityLookupTable.operatorCount;
-        const basePity = config.basePity;
-        const drawsPerGroup = maxPity - basePity; // 每组的实际抽数数量
+        const drawsPerGroup = config.maxPity; // 每组的抽数数量 = 硬保底抽数
 
         // 创建结果缓冲区 - 单精度浮点型
-        // 抽卡结果：每个模拟占用 (100-basePity) 个位置
+        // 抽卡结果：每个模拟占用 drawsPerGroup 个位置
         // 干员结果：每个模拟占用 operatorCount 个位置
         const drawsResultSize = actualBatchSize * drawsPerGroup * 4; // f32 = 4 bytes
         const operatorResultSize = actualBatchSize * operatorCount * 4; // f32 = 4 bytes
@@ -476,7 +409,7 @@ export class GPUManager {
         // 创建配置缓冲区 - 使用Float32Array而非Uint32Array
         const configBuffer = this.device.createBuffer({
             mappedAtCreation: true,
-            size: 20, // 5个f32参数
+            size: 16, // 4个f32参数
             usage: GPUBufferUsage.STORAGE,
             label: 'ConfigBuffer'
         });
@@ -484,18 +417,11 @@ export class GPUManager {
         const configArrayBuffer = configBuffer.getMappedRange();
         const configData = new Float32Array(configArrayBuffer);
         configData[0] = actualBatchSize;
-        configData[1] = maxPity; // 最大保底(100)
+        configData[1] = maxPity; // 最大保底(硬保底抽数)
         configData[2] = operatorCount;
-        configData[3] = basePity; // 基础保底
-        configData[4] = drawsPerGroup; // 每组实际抽数 = maxPity - basePity
+        configData[3] = drawsPerGroup; // 每组抽数 = 硬保底抽数
         configBuffer.unmap();
 
-        // 调试：输出传递给GPU的配置参数
-        console.log('[GPU] 配置参数');
-        console.log(`[GPU] actualBatchSize: ${actualBatchSize}, maxPity: ${maxPity}, operatorCount: ${operatorCount}, basePity: ${basePity}, drawsPerGroup: ${drawsPerGroup}`);
-        console.log(`[GPU] operatorConfig.operators.length: ${operatorConfig.operators.length}`);
-        console.log(`[GPU] this.probabilityLookupTable.operatorCount: ${this.probabilityLookupTable.operatorCount}`);
-
         // CPU生成随机数 - 每个模拟需要2个随机数[0,1]
         const randomCount = actualBatchSize * 2;
         const randomBuffer = this.device.createBuffer({
@@ -509,9 +435,10 @@ export class GPUManager {
         const randomNumbers = new Float32Array(randomArrayBuffer);
 
         // CPU生成[0,1]范围的随机数并保存副本用于调试
+        const random = operatorConfig.random ?? Math.random;
         const randomNumbersCopy = new Float32Array(randomCount);
         for (let i = 0; i < randomCount; i++) {
-            const randomValue = Math.random();
+            const randomValue = random();
             randomNumbers[i] = randomValue;
             randomNumbersCopy[i] = randomValue; // 保存副本
         }
@@ -639,17 +566,14 @@ export class GPUManager {
     /**
      * 执行一批出货模拟 - 吃满GPU缓存的90%
      * @param operatorConfig 干员配置 {name: {weight: number, target: number}}
-     * @param basePity 基础保底
      * @returns 模拟结果列表 [{name: string, draws: number}, ...]
      */
     /**
      * 执行一批出货模拟，这批模拟会吃满可用缓存*0.90，然后返回一个list : {[name:str, draws:int] * n}
      * @param operatorConfig 干员配置，应该包含operators数组和maxDraws等信息
-     * @returns 模拟结果数组，每个元素包含干员名称和抽数
+     * @returns 模拟结果数组，每个元素包含干员名称和从0保底起的抽数
      */
     public async runSimulation(operatorConfig: OperatorConfig): Promise<Array<{name: string, draws: number}>> {
-        console.log('[GPU] 执行单批次GPU模拟，90%内存利用率');
-        
         // 确保GPU已经初始化
         if (!this.isInitialized) {
             console.log('[GPU] 未初始化，开始初始化');
@@ -662,7 +586,7 @@ export class GPUManager {
         // 确保概率查找表已构建
         if (!this.probabilityLookupTable) {
             console.log('[GPU] 概率查找表未构建，开始构建');
-            this.buildProbabilityLookupTable(operatorConfig.basePity || 0, operatorConfig);
+            this.buildProbabilityLookupTable(operatorConfig);
         }
         
         // 重新创建计算管线以确保使用最新的概率表
@@ -680,10 +604,9 @@ export class GPUManager {
             
             // 计算单次模拟需要的内存
             const bytesPerFloat = 4; // f32
-            const configBasePity = operatorConfig.basePity || 0;
-            const configDrawsPerGroup = operatorConfig.maxDraws - configBasePity; // 实际每组抽数
+            const configDrawsPerGroup = operatorConfig.maxDraws; // 每组抽数 = 硬保底抽数
             const bytesPerSimulation = (
-                configDrawsPerGroup * bytesPerFloat + // drawsResults：每个模拟占用(100-basePity)个位置
+                configDrawsPerGroup * bytesPerFloat + // drawsResults：每个模拟占用硬保底抽数个位置
                 operatorConfig.operators.length * bytesPerFloat // operatorResults：每个模拟占用operatorCount个位置
             );
             
@@ -691,11 +614,8 @@ export class GPUManager {
             const maxBatchSize = Math.floor(maxBufferSize / bytesPerSimulation);
             const targetBatchSize = Math.min(maxBatchSize, 10000); // 限制最大批次为10000
             
-            console.log(`[GPU] 计算的批次大小: ${targetBatchSize}, 单次模拟内存: ${bytesPerSimulation} bytes`);
-            
             // 转换为GPU模拟配置
             const gpuConfig: GPUSimulationConfig = {
-                basePity: operatorConfig.basePity || 0,
                 maxPity: operatorConfig.maxDraws,
                 operatorCount: operatorConfig.operators.length
             };
@@ -706,27 +626,12 @@ export class GPUManager {
             // CPU处理GPU差值矩阵结果：正数表示出货/选中，负数表示未出货/未选中
             const simulationResults: Array<{name: string, draws: number}> = [];
             
-            // 根据basePity和operatorCount预处理数据分组
-            const basePity = operatorConfig.basePity || 0;
+            // 根据operatorCount预处理数据分组
             const operatorCount = operatorConfig.operators.length;
-            const drawsPerGroup = 100 - basePity; // 每组的抽数数量（从basePity开始到100抽）
-            
-            console.log(`[GPU] 开始处理GPU结果 - basePity: ${basePity}, operatorCount: ${operatorCount}, drawsPerGroup: ${drawsPerGroup}`);
-            console.log(`[GPU] 总批次大小: ${result.batchSize}`);
-            console.log(`[GPU] drawsResults长度: ${result.drawsResults.length}, operatorResults长度: ${result.operatorResults.length}`);
-            console.log(`[GPU] 预期drawsResults长度: ${result.batchSize * drawsPerGroup}, 预期operatorResults长度: ${result.batchSize * operatorCount}`);
-
-            // 调试：检查前几个干员结果的原始数据
-            console.log('[GPU] 原始干员数据检查');
-            for (let i = 0; i < Math.min(3, result.batchSize); i++) {
-                const startIdx = i * operatorCount;
-                const endIdx = startIdx + operatorCount;
-                const rawData = Array.from(result.operatorResults.slice(startIdx, endIdx));
-                console.log(`[GPU] 模拟 #${i} 原始干员数据 [${startIdx}-${endIdx-1}]: [${rawData.map(v => v.toFixed(3)).join(', ')}]`);
-            }
+            const drawsPerGroup = configDrawsPerGroup; // 每组的抽数数量（从0保底到硬保底）
 
             for (let i = 0; i < result.batchSize; i++) {
-                // 1. 处理抽卡结果 - 每(100-basePity)个为一组
+                // 1. 处理抽卡结果 - 每drawsPerGroup个为一组
                 const drawsGroupStartIdx = i * drawsPerGroup;
                 const drawsGroup = Array.from(result.drawsResults.slice(drawsGroupStartIdx, drawsGroupStartIdx + drawsPerGroup));
                 
@@ -741,7 +646,7 @@ export class GPUManager {
                     
                     // 正数表示出货
                     if (differenceValue >= 0) {
-                        firstHitDraw = basePity + drawIdx + 1; // 实际抽数 = basePity + 组内位置 + 1
+                        firstHitDraw = drawIdx + 1; // 实际抽数 = 组内位置 + 1
                         break;
                     }
                 }
@@ -771,16 +676,8 @@ export class GPUManager {
                         draws: firstHitDraw
                     });
                 }
-                
-                // 调试输出（仅前几个结果）
-                if (i < 10) {
-                    console.log(`[GPU] 模拟 #${i}: 抽卡组前5个[${drawsGroup.slice(0, 5).map(v => v.toFixed(3)).join(', ')}...], 干员组[${operatorGroup.map(v => v.toFixed(3)).join(', ')}]`);
-                    console.log(`[GPU] 模拟 #${i}: 第${firstHitDraw}抽出货，选中${selectedOperatorName}`);
-                }
             }
             
-            console.log(`[GPU] 处理完成，返回${simulationResults.length}个模拟结果`);
-            
             return simulationResults;
             
         } catch (error) {
@@ -809,8 +706,8 @@ export class GPUManager {
                 { name: 'testOp1', weight: 0.7 },
                 { name: 'testOp2', weight: 0.3 }
             ],
-            maxDraws: 100,
-            basePity: 0
+            maxDraws: DEFAULT_BANNER_RULESET.hardCap,
+            rules: DEFAULT_BANNER_RULESET
         };
 
         const startTime = performance.now();
@@ -0,0 +1,199 @@
+/**
+ * 收入规划
+ * 按周期收入推算资源随日期的变化，并结合完成目标所需抽数的累积分布计算各日期抽卡的成功率
+ * 日期统一为 "YYYY-MM-DD" 字符串，按UTC零点计算以避免时区与夏令时影响
+ */
+
+import { resourcesToDraws, type Resources } from './currency';
+import type { CumulativeProbabilityPoint } from './workerManager';
+
+/**
+ * 收入周期 - 收入在每天、每周一、每月1日计入
+ */
+export type IncomePeriod = 'daily' | 'weekly' | 'monthly';
+
+/**
+ * 周期收入来源
+ */
+export interface IncomeSource {
+  name: string;
+  period: IncomePeriod;
+  income: Resources; // 每个周期的收入
+  enabled: boolean;
+}
+
+/**
+ * 收入规划结果
+ */
+export interface IncomePlan {
+  bannerDate: string;
+  bannerResources: Resources; // 卡池开始当天的资源
+  bannerDraws: number; // 卡池开始当天可用的抽数
+  bannerProbability: number; // 卡池开始当天抽卡的成功率 (百分比)
+  targetProbability: number; // 目标成功率 (百分比)
+  targetDate: string | null; // 成功率首次达到目标的日期，规划范围内无法达到时为空
+  targetDraws: number | null; // 该日期可用的抽数
+  timeline: { date: string; draws: number; probability: number }[]; // 每日可用抽数与成功率
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyIncome = (income: Partial<Resources>): Resources => ({
+  orundum: 0,
+  originitePrime: 0,
+  permits: 0,
+  tenPullPermits: 0,
+  ...income,
+});
+
+// 默认收入来源，数值为常见的每周期收入，可在界面中修改
+export const DEFAULT_INCOME_SOURCES: IncomeSource[] = [
+  { name: '每日任务', period: 'daily', income: emptyIncome({ orundum: 100 }), enabled: true },
+  { name: '每周任务', period: 'weekly', income: emptyIncome({ orundum: 500 }), enabled: true },
+  { name: '剿灭作战', period: 'weekly', income: emptyIncome({ orundum: 1800 }), enabled: true },
+  { name: '月卡 (每日合成玉)', period: 'daily', income: emptyIncome({ orundum: 200 }), enabled: false },
+  { name: '月卡 (购买源石)', period: 'monthly', income: emptyIncome({ originitePrime: 6 }), enabled: false },
+  { name: '绿票商店', period: 'monthly', income: emptyIncome({ permits: 4 }), enabled: true },
+  { name: '活动 (每月估计)', period: 'monthly', income: emptyIncome({}), enabled: false },
+];
+
+// 默认规划范围 (天)
+const DEFAULT_HORIZON_DAYS = 730;
+
+/**
+ * 解析日期字符串
+ * @param date - "YYYY-MM-DD"
+ * @returns UTC零点的时间戳
+ * @throws 日期格式不合法时抛出错误
+ */
+function parseDate(date: string): number {
+  const time = Date.parse(`${date}T00:00:00Z`);
+  if (isNaN(time)) {
+    throw new Error(`日期格式不正确: "${date}"`);
+  }
+  return time;
+}
+
+/**
+ * 将时间戳格式化为日期字符串
+ * @param time - UTC零点的时间戳
+ * @returns "YYYY-MM-DD"
+ */
+export function formatDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * 判断某天是否计入该周期的收入
+ * @param period - 收入周期
+ * @param time - UTC零点的时间戳
+ */
+function isIncomeDay(period: IncomePeriod, time: number): boolean {
+  const date = new Date(time);
+  switch (period) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return date.getUTCDay() === 1;
+    case 'monthly':
+      return date.getUTCDate() === 1;
+  }
+}
+
+/**
+ * 将某天的收入计入资源
+ * @param resources - 当前资源 (原地修改)
+ * @param sources - 收入来源
+ * @param time - UTC零点的时间戳
+ */
+function addDailyIncome(resources: Resources, sources: IncomeSource[], time: number): void {
+  sources.forEach(source => {
+    if (source.enabled && isIncomeDay(source.period, time)) {
+      resources.orundum += source.income.orundum;
+      resources.originitePrime += source.income.originitePrime;
+      resources.permits += source.income.permits;
+      resources.tenPullPermits += source.income.tenPullPermits;
+    }
+  });
+}
+
+/**
+ * 由累积分布查询在指定抽数内完成目标的概率
+ * @param cumulativeProbability - 累积概率分布 (按抽数升序)
+ * @param draws - 可用抽数
+ * @returns 成功率 (百分比)
+ */
+export function getSuccessProbability(cumulativeProbability: CumulativeProbabilityPoint[], draws: number): number {
+  let probability = 0;
+  for (const point of cumulativeProbability) {
+    if (point.draws > draws) break;
+    probability = point.probability;
+  }
+  return probability;
+}
+
+/**
+ * 结合收入推算与累积分布生成规划
+ * @param stock - 今天的资源
+ * @param sources - 收入来源
+ * @param today - 今天的日期
+ * @param bannerDate - 卡池开始日期
+ * @param cumulativeProbability - 完成目标所需抽数的累积概率分布
+ * @param targetProbability - 目标成功率 (百分比)
+ * @param horizonDays - 规划范围 (天)，在此范围内寻找达到目标成功率的日期
+ * @returns 规划结果
+ * @throws 日期不合法或卡池开始日期早于今天时抛出错误
+ */
+export function planIncome(
+  stock: Resources,
+  sources: IncomeSource[],
+  today: string,
+  bannerDate: string,
+  cumulativeProbability: CumulativeProbabilityPoint[],
+  targetProbability: number = 90,
+  horizonDays: number = DEFAULT_HORIZON_DAYS
+): IncomePlan {
+  const start = parseDate(today);
+  const banner = parseDate(bannerDate);
+  if (banner < start) {
+    throw new Error('卡池开始日期不能早于今天');
+  }
+
+  const resources = { ...stock };
+  const end = Math.max(banner, start + horizonDays * DAY_MS);
+  const timeline: IncomePlan['timeline'] = [];
+  let bannerResources = resources;
+  let targetDate: string | null = null;
+  let targetDraws: number | null = null;
+
+  for (let time = start; time <= end; time += DAY_MS) {
+    if (time > start) {
+      addDailyIncome(resources, sources, time);
+    }
+    const draws = resourcesToDraws(resources);
+    const probability = getSuccessProbability(cumulativeProbability, draws);
+    timeline.push({ date: formatDate(time), draws, probability });
+
+    if (time === banner) {
+      bannerResources = { ...resources };
+    }
+    if (targetDate === null && probability >= targetProbability) {
+      targetDate = formatDate(time);
+      targetDraws = draws;
+    }
+    // 已经过卡池开始日期且达到目标成功率后无需继续推算
+    if (time >= banner && targetDate !== null) break;
+  }
+
+  const bannerDraws = resourcesToDraws(bannerResources);
+  return {
+    bannerDate,
+    bannerResources,
+    bannerDraws,
+    bannerProbability: getSuccessProbability(cumulativeProbability, bannerDraws),
+    targetProbability,
+    targetDate,
+    targetDraws,
+    timeline,
+  };
+}
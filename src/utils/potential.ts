@@ -0,0 +1,56 @@
+/**
+ * 潜能与溢出计算
+ * 第1个干员为潜能1，之后每个重复干员提升1级潜能，获得6个即满潜；满潜后的重复干员转化为信物与凭证
+ */
+
+// 满潜 (潜能6) 所需的总数量
+export const MAX_POTENTIAL = 6;
+
+// 满潜后每个重复的6星干员转化的产出
+export const OVERFLOW_OUTPUT = {
+  tokens: 1, // 信物 (已无法再用于提升潜能)
+  certificates: 15, // 高级凭证
+};
+
+/**
+ * 干员配置 - 以干员名称为键
+ */
+export interface OperatorConfig {
+  [key: string]: {
+    weight: number;
+    target: number;
+    up?: boolean;
+    potential?: number; // 目标潜能 (1-6)，设置时目标数量由潜能与已有数量计算
+    owned?: number; // 已有数量，用于计算潜能与满潜后的溢出
+  };
+}
+
+/**
+ * 由目标潜能与已有数量计算还需要获得的数量
+ * @param potential - 目标潜能 (1-6)
+ * @param owned - 已有数量 (0 表示未拥有)
+ * @returns 目标数量
+ */
+export function getPotentialTarget(potential: number, owned: number = 0): number {
+  return Math.max(0, Math.min(potential, MAX_POTENTIAL) - owned);
+}
+
+/**
+ * 计算已有数量加上新获得数量后的潜能
+ * @param owned - 已有数量
+ * @param copies - 新获得数量
+ * @returns 潜能 (0 表示仍未拥有)
+ */
+export function getPotential(owned: number, copies: number): number {
+  return Math.min(owned + copies, MAX_POTENTIAL);
+}
+
+/**
+ * 计算新获得的干员中满潜后溢出的数量
+ * @param owned - 已有数量
+ * @param copies - 新获得数量
+ * @returns 溢出数量
+ */
+export function getOverflowCopies(owned: number, copies: number): number {
+  return Math.max(0, owned + copies - MAX_POTENTIAL) - Math.max(0, owned - MAX_POTENTIAL);
+}
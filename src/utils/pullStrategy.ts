@@ -0,0 +1,95 @@
+/**
+ * 抽卡策略
+ * 在完成目标之外决定何时停止抽卡，每抽之前判定一次；由主线程、Worker 与 GPU 结果消费共用
+ */
+
+import type { BannerRuleset } from './bannerRuleset';
+
+/**
+ * 抽卡策略 - 可序列化，传递给 Worker 后逐抽判定
+ */
+export type PullStrategy =
+  | { type: 'untilTarget' } // 抽到完成目标为止
+  | { type: 'stopLoss'; draws: number } // 抽满 draws 抽仍未获得任何目标干员时止损
+  | { type: 'nextGuarantee' } // 只抽到下一个保底 (首次UP保底或寻访参数兑换，均未启用时为下一个6星)
+  | { type: 'firstSixStar' }; // 出任意6星即停止
+
+/**
+ * 策略判定所需的单次模拟状态
+ */
+export interface PullState {
+  total: number; // 已抽数
+  sixStars: number; // 已获得的6星数量
+  targetObtained: boolean; // 是否已获得任意目标干员
+}
+
+/**
+ * 内置策略，用于策略对比
+ */
+export const BUILTIN_STRATEGIES: PullStrategy[] = [
+  { type: 'untilTarget' },
+  { type: 'stopLoss', draws: 150 },
+  { type: 'nextGuarantee' },
+  { type: 'firstSixStar' },
+];
+
+/**
+ * 获取下一个保底所在的抽数 - 首次UP保底与寻访参数兑换中较早的一个
+ * @param rules - 卡池规则
+ * @returns 抽数，均未启用时返回 null
+ */
+export function getGuaranteeDraws(rules: BannerRuleset): number | null {
+  const candidates = [rules.guarantee?.pullLimit, rules.spark?.threshold]
+    .filter((draws): draws is number => draws !== undefined);
+  return candidates.length > 0 ? Math.min(...candidates) : null;
+}
+
+/**
+ * 判定是否停止抽卡 - 在每抽之前调用，完成目标与预算用尽的判定由调用方处理
+ * @param strategy - 抽卡策略
+ * @param state - 当前状态
+ * @param rules - 卡池规则
+ * @returns 是否停止
+ */
+export function shouldStopPulling(strategy: PullStrategy, state: PullState, rules: BannerRuleset): boolean {
+  switch (strategy.type) {
+    case 'untilTarget':
+      return false;
+    case 'stopLoss':
+      return state.total >= strategy.draws && !state.targetObtained;
+    case 'nextGuarantee': {
+      const guaranteeDraws = getGuaranteeDraws(rules);
+      return guaranteeDraws !== null ? state.total >= guaranteeDraws : state.sixStars > 0;
+    }
+    case 'firstSixStar':
+      return state.sixStars > 0;
+  }
+}
+
+/**
+ * 将策略格式化为可读文本
+ * @param strategy - 抽卡策略
+ * @returns 文本
+ */
+export function formatPullStrategy(strategy: PullStrategy): string {
+  switch (strategy.type) {
+    case 'untilTarget':
+      return '抽到完成目标';
+    case 'stopLoss':
+      return `${strategy.draws}抽未出目标即止损`;
+    case 'nextGuarantee':
+      return '只抽到下一个保底';
+    case 'firstSixStar':
+      return '出任意6星即停止';
+  }
+}
+
+/**
+ * 校验抽卡策略
+ * @throws 参数不合法时抛出错误
+ */
+export function validatePullStrategy(strategy: PullStrategy): void {
+  if (strategy.type === 'stopLoss' && (!Number.isInteger(strategy.draws) || strategy.draws < 1)) {
+    throw new Error('止损抽数必须为正整数');
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * 可设定种子的伪随机数生成器
+ * 使用 sfc32 算法，初始状态由 splitmix32 从 (种子, 流编号) 派生
+ * 每次模拟使用独立的流，结果与模拟由哪个 Worker 执行、以何种顺序完成无关
+ */
+
+/**
+ * 随机数源 - 返回 [0, 1) 均匀随机数，与 Math.random 签名一致
+ */
+export type RandomSource = () => number;
+
+/**
+ * splitmix32 - 用于将种子扩展为生成器初始状态
+ */
+function splitmix32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x9e3779b9) | 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x21f0aaad);
+    z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+    return (z ^ (z >>> 15)) >>> 0;
+  };
+}
+
+/**
+ * 创建指定种子与流编号的随机数源
+ * @param seed - 随机种子 (32位无符号整数)
+ * @param stream - 流编号，同一种子下不同流互不相关
+ * @returns 随机数源
+ */
+export function createRandom(seed: number, stream: number = 0): RandomSource {
+  const mixer = splitmix32((splitmix32(seed)() + stream) >>> 0);
+  let a = mixer();
+  let b = mixer();
+  let c = mixer();
+  let d = mixer();
+
+  const next = (): number => {
+    d = (d + 1) | 0;
+    const t = (((a + b) | 0) + d) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+
+  // 丢弃前几个输出，使初始状态充分混合
+  for (let i = 0; i < 12; i++) next();
+  return next;
+}
+
+/**
+ * 生成随机种子 - 未指定种子时使用，并记录在统计结果中以便复现
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
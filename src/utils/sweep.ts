@@ -0,0 +1,247 @@
+/**
+ * 参数扫描
+ * 在一个或两个参数 (干员目标数量、干员权重、已累计未出6星的抽数) 的取值范围内逐点运行模拟，
+ * 得到统计指标随参数变化的曲线或热力图
+ */
+
+import { runSimulationWithStatistics } from './gacha';
+import { DEFAULT_BANNER_RULESET, type BannerRuleset } from './bannerRuleset';
+import { generateSeed } from './random';
+import { getExpressionTargets, type TargetExpression } from './targetExpression';
+import type { OperatorConfig } from './potential';
+
+/**
+ * 扫描的参数
+ */
+export type SweepParameter =
+  | { type: 'target'; operator: string } // 干员目标数量
+  | { type: 'weight'; operator: string } // 干员权重
+  | { type: 'basePity' }; // 已累计未出6星的抽数
+
+/**
+ * 扫描轴 - 参数从 start 到 end (含) 按 step 取值
+ */
+export interface SweepAxis {
+  parameter: SweepParameter;
+  start: number;
+  end: number;
+  step: number;
+}
+
+/**
+ * 扫描中的单个点
+ */
+export interface SweepPoint {
+  values: number[]; // 各轴的参数取值，与轴顺序一致
+  mean: number;
+  median: number;
+  p75: number;
+  successRate: number | null; // 预算模式下完成目标条件的概率 (百分比)，未设置预算时为 null
+}
+
+/**
+ * 扫描结果
+ */
+export interface SweepResult {
+  axes: SweepAxis[];
+  points: SweepPoint[]; // 第一个轴变化最快
+  seed: number;
+}
+
+// 单个扫描点的模拟配置
+interface SweepSetup {
+  operatorConfig: OperatorConfig;
+  basePity: number;
+  goal?: TargetExpression;
+}
+
+// 扫描点数量上限
+export const MAX_SWEEP_POINTS = 400;
+
+/**
+ * 将扫描参数格式化为可读文本
+ * @param parameter - 扫描参数
+ * @returns 文本
+ */
+export function formatSweepParameter(parameter: SweepParameter): string {
+  switch (parameter.type) {
+    case 'target':
+      return `${parameter.operator} 目标数量`;
+    case 'weight':
+      return `${parameter.operator} 权重`;
+    case 'basePity':
+      return '已累计未出6星抽数';
+  }
+}
+
+/**
+ * 获取扫描轴的所有取值
+ * @param axis - 扫描轴
+ * @returns 从 start 到 end 的取值
+ */
+export function getAxisValues(axis: SweepAxis): number[] {
+  // 按序号计算取值，避免小数步长累加误差
+  const count = Math.floor((axis.end - axis.start) / axis.step + 1e-9) + 1;
+  return Array.from({ length: count }, (_, i) => axis.start + i * axis.step);
+}
+
+/**
+ * 校验扫描轴
+ * @param axes - 扫描轴 (一个或两个)
+ * @param operatorConfig - 干员配置
+ * @param rules - 卡池规则
+ * @param goal - 目标条件 (可选)
+ * @throws 参数不合法时抛出错误
+ */
+export function validateSweep(
+  axes: SweepAxis[],
+  operatorConfig: OperatorConfig,
+  rules: BannerRuleset,
+  goal?: TargetExpression
+): void {
+  if (axes.length < 1 || axes.length > 2) {
+    throw new Error('参数扫描需要一个或两个参数');
+  }
+  if (axes.length === 2 && JSON.stringify(axes[0].parameter) === JSON.stringify(axes[1].parameter)) {
+    throw new Error('两个扫描参数不能相同');
+  }
+
+  axes.forEach(axis => {
+    const name = formatSweepParameter(axis.parameter);
+    const { parameter } = axis;
+    if (parameter.type !== 'basePity' && !operatorConfig[parameter.operator]) {
+      throw new Error(`干员 "${parameter.operator}" 不存在`);
+    }
+    if (parameter.type === 'target' && goal && getExpressionTargets(goal)[parameter.operator] === undefined) {
+      throw new Error(`目标条件中不包含干员 "${parameter.operator}"，无法扫描其目标数量`);
+    }
+    if (!(axis.step > 0) || axis.end < axis.start) {
+      throw new Error(`${name}：步长必须为正数且终点不能小于起点`);
+    }
+    // 权重可以为小数，其他参数均为整数
+    if (parameter.type !== 'weight' && ![axis.start, axis.end, axis.step].every(Number.isInteger)) {
+      throw new Error(`${name}：取值必须为整数`);
+    }
+    if (parameter.type === 'target' && axis.start < 0) {
+      throw new Error(`${name}：不能为负数`);
+    }
+    // 与 validateTargetExpression 一致，目标条件中的数量必须为正整数
+    if (parameter.type === 'target' && goal && axis.start < 1) {
+      throw new Error(`${name}：存在目标条件时至少为1`);
+    }
+    if (parameter.type === 'weight' && axis.start <= 0) {
+      throw new Error(`${name}：必须为正数`);
+    }
+    if (parameter.type === 'basePity' && (axis.start < 0 || axis.end >= rules.hardCap)) {
+      throw new Error(`${name}：取值范围为 0-${rules.hardCap - 1}`);
+    }
+  });
+
+  const points = axes.reduce((count, axis) => count * getAxisValues(axis).length, 1);
+  if (points > MAX_SWEEP_POINTS) {
+    throw new Error(`扫描点数量 (${points}) 超过上限 ${MAX_SWEEP_POINTS}，请缩小范围或增大步长`);
+  }
+}
+
+/**
+ * 将参数取值应用到配置 - 目标数量同时写入目标条件中该干员的叶节点
+ */
+function applySweepValue(
+  parameter: SweepParameter,
+  value: number,
+  setup: SweepSetup
+): SweepSetup {
+  switch (parameter.type) {
+    case 'basePity':
+      return { ...setup, basePity: value };
+    case 'weight':
+      return {
+        ...setup,
+        operatorConfig: {
+          ...setup.operatorConfig,
+          [parameter.operator]: { ...setup.operatorConfig[parameter.operator], weight: value },
+        },
+      };
+    case 'target': {
+      const setCount = (expression: TargetExpression): TargetExpression => {
+        if (expression.type === 'operator') {
+          return expression.name === parameter.operator ? { ...expression, count: value } : expression;
+        }
+        return { ...expression, children: expression.children.map(setCount) };
+      };
+      return {
+        ...setup,
+        // 目标数量直接指定，不再由潜能计算
+        operatorConfig: {
+          ...setup.operatorConfig,
+          [parameter.operator]: { ...setup.operatorConfig[parameter.operator], target: value, potential: undefined },
+        },
+        goal: setup.goal && setCount(setup.goal),
+      };
+    }
+  }
+}
+
+/**
+ * 运行参数扫描 - 每个点使用相同的种子，相邻点之间的差异不受抽样噪声主导
+ * @param axes - 扫描轴 (一个或两个)
+ * @param n - 每个点的模拟次数
+ * @param operatorConfig - 干员配置
+ * @param basePity - 已累计未出6星的抽数，扫描该参数时被覆盖
+ * @param progressCallback - 总进度回调函数
+ * @param rules - 卡池规则
+ * @param seed - 随机种子
+ * @param goal - 目标条件 (可选)
+ * @param budget - 抽数预算 (可选)，设置后每个点给出成功率
+ * @returns Promise<扫描结果>
+ * @throws 参数不合法时抛出错误
+ */
+export async function runSweep(
+  axes: SweepAxis[],
+  n: number,
+  operatorConfig: OperatorConfig,
+  basePity: number = 0,
+  progressCallback?: (progress: number) => void,
+  rules: BannerRuleset = DEFAULT_BANNER_RULESET,
+  seed: number = generateSeed(),
+  goal?: TargetExpression,
+  budget?: number
+): Promise<SweepResult> {
+  validateSweep(axes, operatorConfig, rules, goal);
+
+  // 第一个轴变化最快
+  const grid = axes.reduce<number[][]>(
+    (combinations, axis) => getAxisValues(axis).flatMap(value => combinations.map(values => [...values, value])),
+    [[]]
+  );
+  console.log(`[Sweep] 开始参数扫描: ${grid.length} 个点, 每个点 ${n} 次模拟, 种子 ${seed}`);
+
+  const points: SweepPoint[] = [];
+  for (let i = 0; i < grid.length; i++) {
+    const setup = axes.reduce<SweepSetup>(
+      (current, axis, index) => applySweepValue(axis.parameter, grid[i][index], current),
+      { operatorConfig, basePity, goal }
+    );
+    const statistics = await runSimulationWithStatistics(
+      n,
+      setup.operatorConfig,
+      setup.basePity,
+      progressCallback && (progress => progressCallback((i + progress / 100) / grid.length * 100)),
+      rules,
+      seed,
+      undefined,
+      setup.goal,
+      budget
+    );
+    points.push({
+      values: grid[i],
+      mean: statistics.statisticalData.mean,
+      median: statistics.statisticalData.median,
+      p75: statistics.statisticalData.p75,
+      successRate: statistics.budgetStats?.goalProbability ?? null,
+    });
+  }
+
+  console.log('[Sweep] 参数扫描完成');
+  return { axes, points, seed };
+}
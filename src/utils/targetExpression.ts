@@ -0,0 +1,175 @@
+/**
+ * 目标条件表达式
+ * 完成条件表示为表达式树：叶节点要求某干员的获得数量达到指定值，分组节点组合子条件
+ * 由主线程、Worker、GPU结果消费与精确计算共用
+ * 条件只取决于当前各干员的获得数量，不表达获得的先后顺序 (如 "A 先于 B")：
+ * 精确计算的状态只记录获得数量，支持顺序需要在状态中额外记录各子条件的完成次序
+ */
+
+/**
+ * 目标条件表达式节点
+ */
+export type TargetExpression =
+  | { type: 'operator'; name: string; count: number } // 干员获得数量 ≥ count
+  | { type: 'all'; children: TargetExpression[] } // 全部满足
+  | { type: 'any'; children: TargetExpression[] } // 任意一项满足
+  | { type: 'atLeast'; k: number; children: TargetExpression[] }; // 至少 k 项满足
+
+/**
+ * 由干员配置生成默认条件：所有目标数量大于0的干员都达到目标
+ * @param operatorConfig - 干员配置
+ * @returns 目标条件
+ */
+export function buildDefaultTargetExpression(operatorConfig: { [name: string]: { target: number } }): TargetExpression {
+  return {
+    type: 'all',
+    children: Object.keys(operatorConfig)
+      .filter(name => operatorConfig[name].target > 0)
+      .map(name => ({ type: 'operator', name, count: operatorConfig[name].target }))
+  };
+}
+
+/**
+ * 判断当前获得数量是否满足条件
+ * @param expression - 目标条件
+ * @param statistic - 各干员获得数量
+ * @returns 是否满足
+ */
+export function evaluateTargetExpression(expression: TargetExpression, statistic: { [name: string]: number }): boolean {
+  switch (expression.type) {
+    case 'operator':
+      return (statistic[expression.name] ?? 0) >= expression.count;
+    case 'all':
+      return expression.children.every(child => evaluateTargetExpression(child, statistic));
+    case 'any':
+      return expression.children.some(child => evaluateTargetExpression(child, statistic));
+    case 'atLeast': {
+      let satisfied = 0;
+      for (const child of expression.children) {
+        if (evaluateTargetExpression(child, statistic) && ++satisfied >= expression.k) {
+          return true;
+        }
+      }
+      return false;
+    }
+  }
+}
+
+/**
+ * 获取条件中每名干员要求的最大数量
+ * @param expression - 目标条件
+ * @returns 干员名称 -> 要求数量
+ */
+export function getExpressionTargets(expression: TargetExpression): { [name: string]: number } {
+  const targets: { [name: string]: number } = {};
+  const visit = (node: TargetExpression) => {
+    if (node.type === 'operator') {
+      targets[node.name] = Math.max(targets[node.name] ?? 0, node.count);
+    } else {
+      node.children.forEach(visit);
+    }
+  };
+  visit(expression);
+  return targets;
+}
+
+/**
+ * 按条件改写干员配置中的目标数量 - 寻访参数兑换与单干员统计据此选择目标干员
+ * 保留配置顺序，条件中未出现的干员目标数量为0
+ * @param operatorConfig - 干员配置
+ * @param expression - 目标条件
+ * @returns 改写后的干员配置
+ */
+export function applyTargetExpression<T extends { target: number }>(
+  operatorConfig: { [name: string]: T },
+  expression: TargetExpression
+): { [name: string]: T } {
+  const targets = getExpressionTargets(expression);
+  const applied: { [name: string]: T } = {};
+  Object.keys(operatorConfig).forEach(name => {
+    applied[name] = { ...operatorConfig[name], target: targets[name] ?? 0 };
+  });
+  return applied;
+}
+
+/**
+ * 将条件格式化为可读文本，如 "A≥6 且 (B≥1 或 C≥1)"
+ * @param expression - 目标条件
+ * @returns 文本
+ */
+export function formatTargetExpression(expression: TargetExpression): string {
+  const format = (node: TargetExpression, nested: boolean): string => {
+    if (node.type === 'operator') {
+      return `${node.name}≥${node.count}`;
+    }
+    const children = node.children.map(child => format(child, true));
+    if (node.type === 'atLeast') {
+      return `至少${node.k}项满足 {${children.join('，')}}`;
+    }
+    const text = children.join(node.type === 'all' ? ' 且 ' : ' 或 ');
+    return nested && children.length > 1 ? `(${text})` : text;
+  };
+  return format(expression, false);
+}
+
+/**
+ * 校验目标条件
+ * @param expression - 目标条件
+ * @param operatorConfig - 干员配置
+ * @throws 条件不合法时抛出错误
+ */
+export function validateTargetExpression(expression: TargetExpression, operatorConfig: { [name: string]: unknown }): void {
+  if (expression.type === 'operator') {
+    if (!(expression.name in operatorConfig)) {
+      throw new Error(`目标条件中的干员 "${expression.name}" 不在干员配置中`);
+    }
+    if (!Number.isInteger(expression.count) || expression.count < 1) {
+      throw new Error('目标条件中的数量必须为正整数');
+    }
+    return;
+  }
+  if (expression.children.length === 0) {
+    throw new Error('目标条件分组不能为空');
+  }
+  if (expression.type === 'atLeast'
+    && (!Number.isInteger(expression.k) || expression.k < 1 || expression.k > expression.children.length)) {
+    throw new Error('"至少k项满足" 的 k 必须在 1 到子条件数量之间');
+  }
+  expression.children.forEach(child => validateTargetExpression(child, operatorConfig));
+}
+
+/**
+ * 重命名条件中引用的干员
+ * @param expression - 目标条件
+ * @param oldName - 原名称
+ * @param newName - 新名称
+ * @returns 新的目标条件
+ */
+export function renameExpressionOperator(expression: TargetExpression, oldName: string, newName: string): TargetExpression {
+  if (expression.type === 'operator') {
+    return expression.name === oldName ? { ...expression, name: newName } : expression;
+  }
+  return { ...expression, children: expression.children.map(child => renameExpressionOperator(child, oldName, newName)) };
+}
+
+/**
+ * 移除条件中引用某干员的叶节点 - 移除后为空的分组一并移除，"至少k项满足" 的 k 不超过剩余子条件数量
+ * @param expression - 目标条件
+ * @param name - 干员名称
+ * @returns 新的目标条件，所有叶节点都被移除时返回 null
+ */
+export function removeExpressionOperator(expression: TargetExpression, name: string): TargetExpression | null {
+  if (expression.type === 'operator') {
+    return expression.name === name ? null : expression;
+  }
+  const children = expression.children
+    .map(child => removeExpressionOperator(child, name))
+    .filter((child): child is TargetExpression => child !== null);
+  if (children.length === 0) {
+    return null;
+  }
+  if (expression.type === 'atLeast') {
+    return { ...expression, k: Math.min(expression.k, children.length), children };
+  }
+  return { ...expression, children };
+}
@@ -1,23 +1,140 @@
 /**
  * Web Worker管理器
- * 每个Worker只执行一次模拟，通过完成Worker数量计算进度
+ * 按序号区间将模拟分块交给Worker执行，调度只使用计数器，内存占用与模拟次数无关
+ * Worker池在任务之间常驻，空闲超时后释放，并定期检查空闲Worker是否仍能响应
  * 使用桶存储统计draws分布数据，支持GPU协同计算
  */
 
 import { GPUManager } from './gpuManager';
+import type { ExactDistribution, ExactOperatorConfig } from './exactSolver';
+import { createRandom, generateSeed, type RandomSource } from './random';
+import { OVERFLOW_OUTPUT, getOverflowCopies, getPotential, type OperatorConfig } from './potential';
+import {
+  applyTargetExpression,
+  buildDefaultTargetExpression,
+  evaluateTargetExpression,
+  type TargetExpression
+} from './targetExpression';
+import {
+  DEFAULT_BANNER_RULESET,
+  createRarityCounts,
+  getGuaranteedOperators,
+  getOperatorProbabilities,
+  getSixStarPmf,
+  pickSparkTarget,
+  resolveOperatorPools,
+  rollNonSixStarRarity,
+  type BannerRuleset,
+  type Rarity,
+  type RarityCounts
+} from './bannerRuleset';
+import { shouldStopPulling, type PullStrategy } from './pullStrategy';
+import type { Campaign, CampaignChunkResult } from './campaign';
+import type { AllocationBanner, AllocationPolicy, AllocationResult } from './allocation';
 
 interface WorkerTask {
+  type: 'simulate';
   taskId: string;
   operatorConfig: any;
   basePity: number;
+  bannerRuleset: BannerRuleset;
+  seed: number;
+  goal: TargetExpression;
+  budget?: number;
+  strategy?: PullStrategy;
   workerId: number;
-  simulationIndex: number;
+  chunkStart: number; // 本块第一个模拟的序号，第 i 个模拟使用随机数流 i
+  chunkSize: number;
 }
 
-interface SingleSimulationResult {
+// 多卡池模拟的一块，与单卡池模拟相同，第 i 次模拟使用随机数流 i
+interface CampaignJob {
+  type: 'campaign';
+  campaign: Campaign;
+  seed: number;
+  chunkStart: number;
+  chunkSize: number;
+}
+
+// 一组分配策略的评估，所有组合使用相同的种子
+interface AllocationJob {
+  type: 'allocation';
+  banners: AllocationBanner[];
+  policies: AllocationPolicy[];
+  totalBudget: number;
+  n: number;
+  seed: number;
+  initialPity?: { [group: string]: number };
+}
+
+// 精确计算，由单个Worker执行
+interface ExactJob {
+  type: 'exact';
+  operatorConfig: ExactOperatorConfig;
+  basePity: number;
+  bannerRuleset: BannerRuleset;
+  goal: TargetExpression;
+  budget?: number;
+}
+
+// 运行估算的实测，由单个Worker执行少量模拟并计时
+interface CalibrationJob {
+  type: 'calibrate';
+  operatorConfig: OperatorConfig;
+  basePity: number;
+  bannerRuleset: BannerRuleset;
+  goal?: TargetExpression;
+  budget?: number;
+  strategy?: PullStrategy;
+  simulations: number;
+}
+
+// Worker 返回的实测结果
+interface CalibrationResult {
+  secondsPerSimulation: number;
+  maxDraws: number; // 实测中的最大抽数
+}
+
+// 由空闲Worker依次领取的独立计算，发送时附带任务ID、Worker ID与计算序号
+type WorkerJob = CampaignJob | AllocationJob | ExactJob | CalibrationJob;
+
+// Worker 控制消息：预热 (执行少量模拟使脚本完成编译) 与健康检查
+interface WorkerControlMessage {
+  type: 'warmup' | 'ping';
+  workerId: number;
+}
+
+// Worker 返回的一块模拟的汇总结果，直方图以 Uint32Array 转移
+interface ChunkResult {
+  simulations: number;
+  drawsHistogram: Uint32Array; // 抽数 -> 模拟次数
+  operatorNames: string[];
+  characterCounts: Uint32Array; // 与 operatorNames 对应的获得数量之和
+  copyHistograms: Uint32Array[]; // 与 operatorNames 对应，单次模拟获得数量 -> 模拟次数
+  offRateCopyHistogram: Uint32Array | null; // 非UP 6星合计的获得数量分布，仅启用UP规则时存在
+  targetNames: string[];
+  targetHistograms: Uint32Array[]; // 与 targetNames 对应，达到目标时的抽数 -> 模拟次数
+  rarityCounts: Uint32Array; // 3-6星的数量
+  simulationsUsingSpark: number;
+  sparkRedemptions: number;
+  guaranteedSimulations: number;
+  completedGoalSimulations: number;
+  failedDrawsSum: number;
+  budgetOutcomes: { [met: string]: number } | null; // 仅预算模式下存在
+}
+
+// GPU结果消费时单次模拟的进行状态
+interface GPUSimulationState {
   totalDraws: number;
-  characterCounts: { [key: string]: number };
-  details: any;
+  sparkPoints: number;
+  sparkRedemptions: number;
+  upObtained: boolean;
+  guaranteeTriggered: boolean;
+  statistic: { [name: string]: number };
+  targetDraws: { [name: string]: number };
+  completed: boolean;
+  sixStars: number; // 已获得的6星数量，用于策略判定
+  targetObtained: boolean; // 是否已获得任意目标干员，用于策略判定
 }
 
 // 数据结构定义
@@ -25,7 +142,11 @@ interface DrawsBucket {
   [draws: number]: number; // draws数量 -> 出现次数
 }
 
-interface CumulativeProbabilityPoint {
+interface CopyBucket {
+  [copies: number]: number; // 单次模拟获得数量 -> 模拟次数
+}
+
+export interface CumulativeProbabilityPoint {
   draws: number;
   probability: number; // 累积概率百分比
 }
@@ -45,6 +166,103 @@ export interface CharacterStats {
   averageDrawsPerTarget: number;
 }
 
+/**
+ * 单个目标干员达到目标所需抽数的分布
+ * 目标条件允许不全部达成时 (如 "A或B")，分布只统计完成前达到该干员目标的模拟
+ */
+export interface TargetStats {
+  target: number;
+  reachRate: number; // 完成前达到该干员目标的模拟占比 (百分比)
+  drawsBucket: DrawsBucket; // 抽数 -> 在该抽数达到目标的次数
+  cumulativeProbability: CumulativeProbabilityPoint[];
+  statisticalData: StatisticalData;
+  percentiles: { percentile: number; draws: number }[];
+}
+
+/**
+ * 单次模拟中某干员获得数量的分布
+ */
+export interface CopyStats {
+  distribution: { copies: number; simulations: number; percentage: number }[]; // 按获得数量升序
+  mean: number;
+}
+
+/**
+ * 潜能与满潜后溢出统计 - 均为每次模拟的平均值
+ */
+export interface PotentialStats {
+  owned: number; // 模拟前已有数量
+  target: number;
+  averagePotential: number; // 模拟结束时的平均潜能
+  overTargetCopies: number; // 超出目标的数量
+  overflowCopies: number; // 满潜后溢出的数量
+  overflowRate: number; // 出现溢出的模拟占比 (百分比)
+  tokens: number; // 溢出转化的信物
+  certificates: number; // 溢出转化的高级凭证
+}
+
+export interface RarityStats {
+  count: number;
+  averagePerSimulation: number;
+  averagePer100Draws: number;
+}
+
+export interface SparkStats {
+  threshold: number;
+  simulationsUsingSpark: number;
+  totalRedemptions: number;
+  usageRate: number; // 使用了兑换的模拟占比 (百分比)
+}
+
+export interface GuaranteeStats {
+  pullLimit: number;
+  simulationsTriggered: number; // 由首次UP保底给出UP干员的模拟次数
+  triggerRate: number; // 百分比
+}
+
+/**
+ * 预算模式统计 - 抽数预算用尽时停止，统计预算内的达成情况
+ */
+export interface BudgetStats {
+  budget: number;
+  goalProbability: number; // 完成目标条件的概率 (百分比)
+  targetProbabilities: { [name: string]: number }; // 各目标干员达到目标的概率 (百分比)
+  jointOutcomes: { met: string[]; probability: number }[]; // 达到目标的干员组合及其概率 (百分比)，按概率降序
+}
+
+/**
+ * 抽卡策略统计 - 按策略停止后，完成目标条件的比例与花费
+ */
+export interface StrategyStats {
+  strategy: PullStrategy;
+  successRate: number; // 完成目标条件的概率 (百分比)
+  expectedSpend: number; // 平均花费抽数
+  failureRate: number; // 未完成目标即停止的概率 (百分比)
+  failureSpend: number | null; // 未完成时的平均花费抽数，从未失败时为 null
+}
+
+/**
+ * CPU与GPU一致性校验结果 - 双样本 Kolmogorov-Smirnov 检验
+ */
+export interface ParityReport {
+  basePity: number;
+  cpuMean: number;
+  gpuMean: number;
+  ksStatistic: number; // 两个抽数分布的累积分布最大差值
+  criticalValue: number; // 显著性水平 0.05 下的临界值
+  passed: boolean; // ksStatistic 不超过临界值
+}
+
+/**
+ * 运行前的内存与耗时估算
+ */
+export interface RunEstimate {
+  memoryBytes: number; // 峰值内存占用估算，与模拟次数无关
+  seconds: number | null; // 预计耗时，GPU模式下取决于显卡，无法估算时为 null
+  workerCount: number; // 参与计算的Worker数量，GPU模式下为 0
+  useGPU: boolean;
+}
+
 export interface StatisticalData {
   mean: number;
   median: number;
@@ -56,6 +274,72 @@ export interface StatisticalData {
   sigma3Range: { min: number; max: number; coverage: number };
 }
 
+/**
+ * 精度模式目标 - 持续增加模拟次数，直到均值与指定分位数的95%置信区间足够窄
+ */
+export interface PrecisionTarget {
+  meanHalfWidth: number; // 均值置信区间半宽 (抽)
+  percentiles: number[]; // 需要收敛的分位数 (百分比，如 50、95)
+  percentileHalfWidth: number; // 分位数置信区间半宽 (抽)
+}
+
+export interface ConfidenceInterval {
+  value: number;
+  lower: number;
+  upper: number;
+  halfWidth: number;
+}
+
+export interface ErrorBars {
+  confidence: number; // 置信水平 (百分比)
+  mean: ConfidenceInterval;
+  percentiles: { [percentile: number]: ConfidenceInterval };
+  converged?: boolean; // 仅精度模式下存在：是否在模拟次数上限内达到目标精度
+}
+
+// 95%置信水平对应的正态分位数
+const Z_95 = 1.96;
+
+// 始终报告误差的分位数
+const REPORTED_PERCENTILES = [25, 50, 75, 95];
+
+// 启用UP规则时，非UP 6星合计 (即歪的次数) 在获得数量分布中的名称
+export const OFF_RATE_TOTAL_NAME = '歪 (非UP 6星合计)';
+
+// 单干员分布表中列出的分位数
+const TARGET_PERCENTILES = [10, 25, 50, 75, 90, 95, 99];
+
+// 精度模式下首轮模拟次数
+const INITIAL_PRECISION_SIMULATIONS = 2000;
+
+// 每块模拟次数上限，以及每个Worker平均分到的块数 (块越多负载越均衡，进度越平滑)
+const MAX_CHUNK_SIZE = 2000;
+const CHUNKS_PER_WORKER = 8;
+
+// 运行估算：每个Worker的基础内存 (脚本与运行时)，以及分布桶中每个条目的内存
+const WORKER_BASE_BYTES = 4 * 1024 * 1024;
+const BUCKET_ENTRY_BYTES = 48;
+
+// Worker池默认的空闲超时 (毫秒)，超时后释放全部Worker
+const DEFAULT_WORKER_IDLE_TIMEOUT = 5 * 60 * 1000;
+
+// 空闲Worker的健康检查间隔与响应超时 (毫秒)
+const HEALTH_CHECK_INTERVAL = 30 * 1000;
+const HEALTH_CHECK_TIMEOUT = 5000;
+
+// 运行中发送快照的最小间隔 (毫秒)
+const SNAPSHOT_INTERVAL = 500;
+
+// GPU单批次的模拟次数上限，与 src/utils/gpuManager.ts 保持一致
+const GPU_BATCH_SIZE = 10000;
+
+/**
+ * 创建取消模拟时的错误，与 fetch 等标准API一致使用 AbortError
+ */
+function createAbortError(): DOMException {
+  return new DOMException('模拟已取消', 'AbortError');
+}
+
 /**
  * 模拟统计结果接口
  */
@@ -64,17 +348,70 @@ export interface SimulationStatistics {
   cumulativeProbability: CumulativeProbabilityPoint[];
   histogramData: HistogramDataPoint[];
   characterStats: { [key: string]: CharacterStats };
+  rarityStats: Record<Rarity, RarityStats>;
+  targetStats: { [key: string]: TargetStats }; // 仅包含目标数量大于0的干员
+  copyStats?: { [key: string]: CopyStats }; // 每次模拟各干员获得数量的分布，精确计算时不存在
+  potentialStats?: { [key: string]: PotentialStats }; // 配置中各干员的潜能与溢出，精确计算时不存在
+  budgetStats?: BudgetStats; // 仅预算模式下存在
+  strategyStats?: StrategyStats; // 仅设置抽卡策略时存在
+  sparkStats?: SparkStats; // 仅在启用寻访参数兑换时存在
+  guaranteeStats?: GuaranteeStats; // 仅在启用首次UP保底时存在
   statisticalData: StatisticalData;
   totalSimulations: number;
+  exact?: boolean; // 精确计算结果：桶与计数均为概率/期望值，totalSimulations 为1
+  seed?: number; // 本次模拟使用的随机种子，精确计算时不存在
+  errorBars?: ErrorBars; // 均值与分位数的95%置信区间，精确计算时不存在
+  partial?: boolean; // 取消后返回的部分结果，totalSimulations 为已完成的模拟次数
+  live?: boolean; // 运行中的快照，totalSimulations 为已完成的模拟次数，随后被新的快照或最终结果替换
   renderChannel: MessageChannel;
 }
 
+// 汇总中的模拟结果，CPU任务与GPU模拟共用
+interface SimulationTotals {
+  drawsBucket: DrawsBucket;
+  characterCounts: { [key: string]: number };
+  targetBuckets: { [key: string]: DrawsBucket };
+  copyBuckets: { [key: string]: CopyBucket };
+  rarityCounts: RarityCounts;
+  simulationsUsingSpark: number;
+  sparkRedemptions: number;
+  guaranteedSimulations: number;
+  completedGoalSimulations: number;
+  failedDrawsSum: number; // 未完成目标的模拟的抽数之和
+  budgetOutcomes: { [met: string]: number };
+}
+
+// 计算统计数据所需的任务配置
+interface SimulationContext {
+  operatorConfig: { [key: string]: { target: number; owned?: number } };
+  bannerRuleset: BannerRuleset;
+  seed: number;
+  budget?: number;
+  strategy?: PullStrategy;
+  precision?: PrecisionTarget;
+}
+
 export class SimulationWorkerManager {
   private workers: Worker[] = [];
   private workerCount: number;
   private availableWorkers: Set<number> = new Set(); // 可用的Worker ID
+  private workerTasks: Map<number, string> = new Map(); // 正在执行模拟的Worker ID -> 任务ID
+  private jobTasks: Map<string, {
+    jobs: WorkerJob[];
+    results: unknown[]; // 与 jobs 顺序一致
+    nextJob: number; // 下一个待分配的计算序号
+    completedJobs: number;
+    progressCallback?: (progress: number) => void;
+    resolve: (results: unknown[]) => void;
+    reject: (error: Error) => void;
+  }> = new Map(); // 由独立计算组成的任务 (多卡池模拟、分配评估、精确计算)
+  private idleTimeout = DEFAULT_WORKER_IDLE_TIMEOUT; // Infinity 表示Worker池常驻
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private healthCheckTimer: ReturnType<typeof setInterval> | null = null;
+  private pendingPings: Map<number, ReturnType<typeof setTimeout>> = new Map(); // 等待健康检查响应的Worker ID -> 超时计时器
   private gpuManager: GPUManager;
   private isGPUEnabled = false;
+  private isMultiThreading = true; // 关闭时Worker池只使用1个Worker
   private isGPUAvailable = false;
   private gpuStatusCallbacks: ((status: { available: boolean; enabled: boolean }) => void)[] = [];
   private activeTasks: Map<string, {
@@ -83,12 +420,32 @@ export class SimulationWorkerManager {
     progressCallback?: Function;
     totalSimulations: number;
     completedSimulations: number;
-    pendingSimulations: number[];
+    nextSimulation: number; // 下一个待分配的模拟序号，[nextSimulation, totalSimulations) 尚未分配
+    chunkSize: number;
     operatorConfig: any;
     basePity: number;
+    bannerRuleset: BannerRuleset;
+    seed: number;
+    goal: TargetExpression;
+    budget?: number;
+    strategy?: PullStrategy;
+    precision?: PrecisionTarget;
+    maxSimulations: number; // 精度模式下的模拟次数上限
+    partialOnAbort: boolean; // 取消时是否返回已完成部分的统计
+    snapshotCallback?: (snapshot: SimulationStatistics) => void;
+    lastSnapshotTime: number; // 上次发送快照的时间
     // 桶存储数据
     drawsBucket: DrawsBucket;
     characterCounts: { [key: string]: number };
+    targetBuckets: { [key: string]: DrawsBucket };
+    copyBuckets: { [key: string]: CopyBucket };
+    rarityCounts: RarityCounts;
+    simulationsUsingSpark: number;
+    sparkRedemptions: number;
+    guaranteedSimulations: number;
+    completedGoalSimulations: number;
+    failedDrawsSum: number; // 未完成目标的模拟的抽数之和
+    budgetOutcomes: { [met: string]: number };
   }> = new Map();
   renderChannel: MessageChannel;
 
@@ -123,15 +480,145 @@ export class SimulationWorkerManager {
    */
   private initializeWorkers(): void {
     for (let i = 0; i < this.workerCount; i++) {
-      const worker = new Worker('/simulation-worker.js');
-      worker.addEventListener('message', this.handleWorkerMessage.bind(this));
-      worker.addEventListener('error', (error) => {
-        console.error(`[Worker] Worker ${i} 发生错误:`, error);
-      });
-
-      this.workers.push(worker);
+      this.workers.push(this.createWorker(i));
       this.availableWorkers.add(i); // 初始时所有Worker都可用
     }
+    this.healthCheckTimer = setInterval(() => this.checkWorkerHealth(), HEALTH_CHECK_INTERVAL);
+    this.scheduleIdleRelease();
+  }
+
+  /**
+   * 创建 Worker 并注册消息与错误监听
+   */
+  private createWorker(workerId: number): Worker {
+    const worker = new Worker('/simulation-worker.js');
+    worker.addEventListener('message', this.handleWorkerMessage.bind(this));
+    worker.addEventListener('error', (error) => {
+      console.error(`[Worker] Worker ${workerId} 发生错误:`, error);
+      // 未捕获的错误后Worker状态不可信，重新创建；正在执行的任务以错误结束
+      const taskId = this.workerTasks.get(workerId);
+      this.restartWorker(workerId);
+      if (taskId) {
+        this.handleWorkerError(taskId, workerId, error.message);
+      }
+    });
+    return worker;
+  }
+
+  /**
+   * 重启 Worker - Worker 执行一块模拟期间无法响应消息，取消或失去响应时终止后在原位置重新创建
+   */
+  private restartWorker(workerId: number): void {
+    this.workers[workerId].terminate();
+    this.workers[workerId] = this.createWorker(workerId);
+    this.workerTasks.delete(workerId);
+    this.clearPendingPing(workerId);
+    this.availableWorkers.add(workerId);
+  }
+
+  /**
+   * 预热 Worker 池 - 创建Worker并让每个空闲Worker执行少量模拟，后续运行无需等待脚本加载与编译
+   */
+  public warmUp(): void {
+    this.ensureWorkersInitialized();
+    this.availableWorkers.forEach(workerId => {
+      const message: WorkerControlMessage = { type: 'warmup', workerId };
+      this.workers[workerId].postMessage(message);
+    });
+    if (!this.hasActiveTasks()) {
+      this.scheduleIdleRelease();
+    }
+  }
+
+  /**
+   * 设置Worker池的空闲超时
+   * @param timeout - 没有任务时保留Worker池的时间 (毫秒)，Infinity 表示常驻
+   */
+  public setIdleTimeout(timeout: number): void {
+    this.idleTimeout = timeout;
+    if (!this.hasActiveTasks() && this.workers.length > 0) {
+      this.scheduleIdleRelease();
+    }
+  }
+
+  /**
+   * 设置是否使用多线程 - 关闭时Worker池只保留1个Worker
+   * 没有任务时立即释放Worker池，下次运行按新的数量重新创建；运行中的任务不受影响
+   * @param enabled - 是否使用多线程
+   */
+  public setMultiThreading(enabled: boolean): void {
+    this.isMultiThreading = enabled;
+    this.workerCount = enabled ? this.getCPUCoreCount() : 1;
+    console.log(`[Worker] ${enabled ? '启用' : '关闭'}多线程，使用 ${this.workerCount} 个 Worker`);
+    if (!this.hasActiveTasks() && this.workers.length > 0 && this.workers.length !== this.workerCount) {
+      this.releaseWorkerPool();
+    }
+  }
+
+  /**
+   * 是否有正在执行或等待Worker的任务
+   */
+  private hasActiveTasks(): boolean {
+    return this.activeTasks.size > 0 || this.jobTasks.size > 0;
+  }
+
+  /**
+   * 重新开始空闲计时 - 超时时仍没有任务则释放 Worker 池
+   */
+  private scheduleIdleRelease(): void {
+    this.cancelIdleRelease();
+    if (!Number.isFinite(this.idleTimeout)) {
+      return;
+    }
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      if (!this.hasActiveTasks() && this.workers.length > 0) {
+        console.log(`[Worker] Worker 池空闲超过 ${this.idleTimeout}ms，释放 Worker 池`);
+        this.releaseWorkerPool();
+      }
+    }, this.idleTimeout);
+  }
+
+  /**
+   * 取消空闲计时
+   */
+  private cancelIdleRelease(): void {
+    if (this.idleTimer !== null) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  /**
+   * 健康检查 - 向空闲Worker发送 ping，超时未响应的Worker重新创建
+   * 正在执行模拟的Worker无法及时响应，以完成结果作为健康信号
+   */
+  private checkWorkerHealth(): void {
+    this.availableWorkers.forEach(workerId => {
+      if (this.pendingPings.has(workerId)) {
+        return;
+      }
+      this.pendingPings.set(workerId, setTimeout(() => {
+        this.pendingPings.delete(workerId);
+        if (!this.workerTasks.has(workerId)) {
+          console.warn(`[Worker] Worker ${workerId} 健康检查超时，重新创建`);
+          this.restartWorker(workerId);
+        }
+      }, HEALTH_CHECK_TIMEOUT));
+      const message: WorkerControlMessage = { type: 'ping', workerId };
+      this.workers[workerId].postMessage(message);
+    });
+  }
+
+  /**
+   * 清除等待中的健康检查
+   */
+  private clearPendingPing(workerId: number): void {
+    const timer = this.pendingPings.get(workerId);
+    if (timer !== undefined) {
+      clearTimeout(timer);
+      this.pendingPings.delete(workerId);
+    }
   }
 
   /**
@@ -217,91 +704,294 @@ export class SimulationWorkerManager {
     };
   }
 
+  /**
+   * 在Worker中实测少量模拟的耗时与最大抽数，用于运行估算，不阻塞主线程
+   * @param simulations - 实测的模拟次数
+   * @param operatorConfig - 干员配置
+   * @param basePity - 已累计未出6星的抽数
+   * @param bannerRuleset - 卡池规则
+   * @param goal - 目标条件 (可选)
+   * @param budget - 抽数预算 (可选)
+   * @param strategy - 抽卡策略 (可选)
+   * @returns Promise<每次模拟的耗时 (秒) 与实测中的最大抽数>
+   */
+  public async calibrateRun(
+    simulations: number,
+    operatorConfig: OperatorConfig,
+    basePity: number = 0,
+    bannerRuleset: BannerRuleset = DEFAULT_BANNER_RULESET,
+    goal?: TargetExpression,
+    budget?: number,
+    strategy?: PullStrategy
+  ): Promise<CalibrationResult> {
+    const job: CalibrationJob = { type: 'calibrate', operatorConfig, basePity, bannerRuleset, goal, budget, strategy, simulations };
+    const [result] = await this.runJobs([job]);
+    return result as CalibrationResult;
+  }
+
+  /**
+   * 估算运行的内存占用与耗时 - 调度只使用计数器，汇总只保存分布桶与每块的直方图，内存与模拟次数无关
+   * @param totalSimulations - 模拟次数
+   * @param secondsPerSimulation - 单线程下每次模拟的耗时 (秒)，由调用方实测
+   * @param maxDraws - 单次模拟抽数的上界估计，决定分布桶与直方图的长度
+   * @param operatorCount - 干员数量
+   * @param bannerRuleset - 卡池规则
+   * @param useGPU - 是否按GPU模式估算，默认使用当前GPU开关状态 (GPU不可用时始终按CPU估算)
+   * @param multiThreading - 是否按多线程估算，默认使用当前多线程开关状态
+   * @returns 估算结果
+   */
+  public estimateRun(
+    totalSimulations: number,
+    secondsPerSimulation: number,
+    maxDraws: number,
+    operatorCount: number,
+    bannerRuleset: BannerRuleset = DEFAULT_BANNER_RULESET,
+    useGPU: boolean = this.isGPUEnabled,
+    multiThreading: boolean = this.isMultiThreading
+  ): RunEstimate {
+    useGPU = useGPU && this.isGPUAvailable;
+    // 抽数分布，以及各干员达成目标的抽数分布与获得数量分布
+    const histogramCount = 2 + 2 * operatorCount;
+    const bucketBytes = histogramCount * maxDraws * BUCKET_ENTRY_BYTES;
+
+    if (useGPU) {
+      // 单批次的抽数差值与干员差值，GPU缓冲区、读回缓冲区与CPU副本各一份
+      const batchBytes = GPU_BATCH_SIZE * (bannerRuleset.hardCap + operatorCount) * 4 * 3;
+      return { memoryBytes: bucketBytes + batchBytes, seconds: null, workerCount: 0, useGPU };
+    }
+
+    // 每个Worker的基础开销与一块模拟的 Uint32Array 直方图
+    const workerCount = multiThreading ? this.getCPUCoreCount() : 1;
+    const workerBytes = workerCount * (WORKER_BASE_BYTES + histogramCount * maxDraws * 4);
+    return {
+      memoryBytes: bucketBytes + workerBytes,
+      seconds: totalSimulations * secondsPerSimulation / workerCount,
+      workerCount,
+      useGPU
+    };
+  }
+
   /**
    * 处理 Worker 消息
    */
   private handleWorkerMessage(event: MessageEvent): void {
-    const { type, taskId, workerId, result, error } = event.data;
+    const { type, taskId, workerId, jobIndex, result, error } = event.data;
 
     switch (type) {
       case 'complete':
         this.handleWorkerComplete(taskId, workerId, result);
         break;
       case 'error':
-        this.handleWorkerError(taskId, error);
+        this.handleWorkerError(taskId, workerId, error);
+        break;
+      case 'jobComplete':
+        this.handleJobComplete(taskId, workerId, jobIndex, result);
+        break;
+      case 'pong':
+        this.clearPendingPing(workerId);
+        break;
+      case 'ready':
+        console.log(`[Worker] Worker ${workerId} 预热完成`);
         break;
     }
   }
 
   /**
-   * 处理Worker完成
+   * 处理Worker完成 - 合并一块模拟的汇总结果
    */
-  private handleWorkerComplete(taskId: string, workerId: number, result: SingleSimulationResult): void {
+  private handleWorkerComplete(taskId: string, workerId: number, result: ChunkResult): void {
+    // 先释放Worker回可用池，任务已因错误结束时仍在执行的块完成后同样需要归还
+    this.releaseWorker(workerId, taskId);
+
     const task = this.activeTasks.get(taskId);
     if (!task) {
       console.log(`[Worker] 未找到任务 ${taskId}`);
       return;
     }
 
-    console.log(`[Worker] Worker ${workerId} 成功完成任务 ${taskId} - 抽数: ${result.totalDraws}, 进度: ${task.completedSimulations + 1}/${task.totalSimulations}`);
-
-    // 释放Worker回可用池
-    this.availableWorkers.add(workerId);
-
     // 增加完成计数
-    task.completedSimulations++;
+    task.completedSimulations += result.simulations;
+
+    // 合并抽数分布
+    this.mergeHistogram(task.drawsBucket, result.drawsHistogram);
 
-    // 桶存储draws数据
-    const draws = result.totalDraws;
-    if (task.drawsBucket[draws]) {
-      task.drawsBucket[draws]++;
-    } else {
-      task.drawsBucket[draws] = 1;
+    // 合并角色统计与获得数量分布
+    result.operatorNames.forEach((name, index) => {
+      task.characterCounts[name] = (task.characterCounts[name] || 0) + result.characterCounts[index];
+      this.mergeHistogram(task.copyBuckets[name] || (task.copyBuckets[name] = {}), result.copyHistograms[index]);
+    });
+    if (result.offRateCopyHistogram) {
+      this.mergeHistogram(task.copyBuckets[OFF_RATE_TOTAL_NAME] || (task.copyBuckets[OFF_RATE_TOTAL_NAME] = {}), result.offRateCopyHistogram);
     }
 
-    // 累积角色统计
-    Object.keys(result.characterCounts).forEach(char => {
-      if (!task.characterCounts[char]) {
-        task.characterCounts[char] = 0;
-      }
-      task.characterCounts[char] += result.characterCounts[char];
+    // 合并单干员达成目标的抽数分布
+    result.targetNames.forEach((name, index) => {
+      this.mergeHistogram(task.targetBuckets[name] || (task.targetBuckets[name] = {}), result.targetHistograms[index]);
+    });
+
+    // 合并稀有度统计
+    ([3, 4, 5, 6] as Rarity[]).forEach((rarity, index) => {
+      task.rarityCounts[rarity] += result.rarityCounts[index];
     });
 
-    // 清理result数据防止内存泄漏
-    result.characterCounts = {};
-    result.details = [];
-    result.totalDraws = 0;
+    // 合并寻访参数兑换、首次UP保底与目标达成统计
+    task.simulationsUsingSpark += result.simulationsUsingSpark;
+    task.sparkRedemptions += result.sparkRedemptions;
+    task.guaranteedSimulations += result.guaranteedSimulations;
+    task.completedGoalSimulations += result.completedGoalSimulations;
+    task.failedDrawsSum += result.failedDrawsSum;
+    Object.entries(result.budgetOutcomes ?? {}).forEach(([key, count]) => {
+      task.budgetOutcomes[key] = (task.budgetOutcomes[key] || 0) + count;
+    });
 
     // 更新进度
     if (task.progressCallback) {
-      const progress = (task.completedSimulations / task.totalSimulations) * 100;
+      // 精度模式下可能追加模拟，收敛前进度不超过99%
+      const progress = (task.completedSimulations / task.totalSimulations) * (task.precision ? 99 : 100);
       task.progressCallback(progress);
     }
 
-    // 继续分配下一个模拟任务 (如果还有待处理的)
-    this.assignNextSimulation(taskId);
+    // 定期发送运行中的快照，最后一块完成时直接计算最终结果
+    if (task.snapshotCallback && task.completedSimulations < task.totalSimulations) {
+      const now = performance.now();
+      if (now - task.lastSnapshotTime >= SNAPSHOT_INTERVAL) {
+        task.lastSnapshotTime = now;
+        task.snapshotCallback(this.buildStatistics(task, task, task.completedSimulations, false, true));
+      }
+    }
+
+    // 空闲的Worker继续执行本任务或其他任务待处理的计算
+    this.dispatchWorkers();
 
     // 检查是否完成
     if (task.completedSimulations >= task.totalSimulations) {
+      // 精度模式下未收敛时追加模拟，序号接续以保持随机数流可复现
+      const nextTotal = task.precision
+        ? this.planPrecisionSimulations(task.drawsBucket, task.completedSimulations, task.precision, task.maxSimulations)
+        : task.totalSimulations;
+      if (nextTotal > task.totalSimulations) {
+        console.log(`[Worker] 任务 ${taskId} 尚未达到目标精度，追加至 ${nextTotal} 次模拟`);
+        // 按追加的模拟次数重新切块，避免沿用首轮的小块
+        task.chunkSize = this.getChunkSize(nextTotal - task.totalSimulations);
+        task.totalSimulations = nextTotal;
+        this.dispatchWorkers();
+        return;
+      }
+
       console.log(`[Worker] 任务 ${taskId} 全部 ${task.totalSimulations} 个模拟完成，开始计算统计数据`);
       this.completeTask(taskId);
     }
-  }  /**
+  }
+
+  /**
+   * 释放执行完一块模拟的Worker - 只释放仍记录为执行该任务的Worker，
+   * 取消时已重启的Worker可能已开始执行其他任务，其旧消息不应再次释放
+   */
+  private releaseWorker(workerId: number, taskId: string): void {
+    if (this.workerTasks.get(workerId) === taskId) {
+      this.workerTasks.delete(workerId);
+      this.availableWorkers.add(workerId);
+    }
+  }
+
+  /**
+   * 将 Worker 返回的直方图合并到桶中
+   */
+  private mergeHistogram(bucket: DrawsBucket | CopyBucket, histogram: Uint32Array): void {
+    for (let value = 0; value < histogram.length; value++) {
+      if (histogram[value] > 0) {
+        bucket[value] = (bucket[value] || 0) + histogram[value];
+      }
+    }
+  }
+
+  /**
+   * 计算每块的模拟次数 - 按 Worker 数量切分，使每个 Worker 平均分到若干块
+   */
+  private getChunkSize(totalSimulations: number): number {
+    return Math.max(1, Math.min(MAX_CHUNK_SIZE, Math.ceil(totalSimulations / (this.workers.length * CHUNKS_PER_WORKER))));
+  }
+
+  /**
    * 处理Worker错误
    */
-  private handleWorkerError(taskId: string, error: string): void {
-    console.error(`[Worker] Worker 执行任务 ${taskId} 时发生错误:`, error);
+  private handleWorkerError(taskId: string, workerId: number, error: string): void {
+    console.error(`[Worker] Worker ${workerId} 执行任务 ${taskId} 时发生错误:`, error);
+
+    // Worker 在 Worker 池中常驻，释放回可用池
+    this.releaseWorker(workerId, taskId);
 
     // 获取任务并拒绝
-    const task = this.activeTasks.get(taskId);
+    const task = this.activeTasks.get(taskId) ?? this.jobTasks.get(taskId);
     if (task) {
       task.reject(new Error(error));
       this.activeTasks.delete(taskId);
+      this.jobTasks.delete(taskId);
+      if (!this.hasActiveTasks()) {
+        this.scheduleIdleRelease();
+      }
+    }
+    this.dispatchWorkers();
+  }
+
+  /**
+   * 处理独立计算完成 - 记录结果，全部完成时结束任务，空闲的Worker继续执行待处理的计算
+   */
+  private handleJobComplete(taskId: string, workerId: number, jobIndex: number, result: unknown): void {
+    this.releaseWorker(workerId, taskId);
+
+    const task = this.jobTasks.get(taskId);
+    if (!task) {
+      console.log(`[Worker] 未找到任务 ${taskId}`);
+      return;
+    }
+    task.results[jobIndex] = result;
+    task.completedJobs++;
+    task.progressCallback?.(Math.floor(task.completedJobs / task.jobs.length * 100));
+
+    if (task.completedJobs === task.jobs.length) {
+      this.jobTasks.delete(taskId);
+      task.resolve(task.results);
+      if (!this.hasActiveTasks()) {
+        this.scheduleIdleRelease();
+      }
+    }
+    this.dispatchWorkers();
+  }
+
+  /**
+   * 分配空闲Worker - 所有任务共用一个队列，Worker空闲时分配给仍有待处理计算的任务，
+   * 优先分配给正在使用Worker最少的任务 (相同时先开始的任务优先)，避免持续运行的任务占满Worker池
+   */
+  private dispatchWorkers(): void {
+    while (this.availableWorkers.size > 0) {
+      const pendingTaskIds = [
+        ...Array.from(this.activeTasks.entries())
+          .filter(([, task]) => task.nextSimulation < task.totalSimulations)
+          .map(([taskId]) => taskId),
+        ...Array.from(this.jobTasks.entries())
+          .filter(([, task]) => task.nextJob < task.jobs.length)
+          .map(([taskId]) => taskId)
+      ];
+      if (pendingTaskIds.length === 0) {
+        return;
+      }
+
+      const runningWorkers = (taskId: string) =>
+        Array.from(this.workerTasks.values()).filter(runningTaskId => runningTaskId === taskId).length;
+      const taskId = pendingTaskIds.reduce((best, candidate) =>
+        runningWorkers(candidate) < runningWorkers(best) ? candidate : best
+      );
+      if (this.activeTasks.has(taskId)) {
+        this.assignNextSimulation(taskId);
+      } else {
+        this.assignNextJob(taskId);
+      }
     }
   }
 
   /**
-   * 分配下一个模拟任务
+   * 分配下一块模拟任务
    */
   private assignNextSimulation(taskId: string): void {
     const task = this.activeTasks.get(taskId);
@@ -310,8 +1000,7 @@ export class SimulationWorkerManager {
       return;
     }
 
-    if (task.pendingSimulations.length === 0) {
-      console.log(`[Worker] 任务 ${taskId} 没有待处理的模拟`);
+    if (task.nextSimulation >= task.totalSimulations) {
       return;
     }
 
@@ -320,51 +1009,181 @@ export class SimulationWorkerManager {
       return;
     }
 
-    const simulationIndex = task.pendingSimulations.shift()!;
+    const chunkStart = task.nextSimulation;
+    const chunkSize = Math.min(task.chunkSize, task.totalSimulations - chunkStart);
+    task.nextSimulation += chunkSize;
     const workerId = Array.from(this.availableWorkers)[0];
     this.availableWorkers.delete(workerId);
+    this.workerTasks.set(workerId, taskId);
 
     const workerTask: WorkerTask = {
+      type: 'simulate',
       taskId,
       operatorConfig: (task as any).operatorConfig,
       basePity: (task as any).basePity,
+      bannerRuleset: task.bannerRuleset,
+      seed: task.seed,
+      goal: task.goal,
+      budget: task.budget,
+      strategy: task.strategy,
       workerId,
-      simulationIndex
+      chunkStart,
+      chunkSize
     };
 
-    console.log(`[Worker] Worker ${workerId} 开始执行任务 ${taskId} - 模拟 ${simulationIndex}`);
     this.workers[workerId].postMessage(workerTask);
   }
 
   /**
-   * 完成任务 - 计算所有统计数据
+   * 分配下一个独立计算
    */
-  private completeTask(taskId: string): void {
-    const task = this.activeTasks.get(taskId);
-    if (!task) return;
+  private assignNextJob(taskId: string): void {
+    const task = this.jobTasks.get(taskId);
+    if (!task || task.nextJob >= task.jobs.length || this.availableWorkers.size === 0) {
+      return;
+    }
+
+    const jobIndex = task.nextJob++;
+    const workerId = Array.from(this.availableWorkers)[0];
+    this.availableWorkers.delete(workerId);
+    this.workerTasks.set(workerId, taskId);
+    this.workers[workerId].postMessage({ ...task.jobs[jobIndex], taskId, workerId, jobIndex });
+  }
+
+  /**
+   * 由汇总数据计算所有统计数据 - CPU任务、GPU模拟与运行中的快照共用
+   * @param totals - 汇总数据
+   * @param context - 任务配置
+   * @param totalSimulations - 已完成的模拟次数
+   * @param partial - 是否为取消后的部分结果
+   * @param live - 是否为运行中的快照，此时复制分布桶，避免后续合并修改已发送的数据
+   */
+  private buildStatistics(
+    totals: SimulationTotals,
+    context: SimulationContext,
+    totalSimulations: number,
+    partial: boolean = false,
+    live: boolean = false
+  ): SimulationStatistics {
+    const drawsBucket = live ? { ...totals.drawsBucket } : totals.drawsBucket;
+    // 单干员统计中保留了各自的分布桶，快照中同样需要复制
+    const targetBuckets = live
+      ? Object.fromEntries(Object.entries(totals.targetBuckets).map(([name, bucket]) => [name, { ...bucket }]))
+      : totals.targetBuckets;
 
     // 1. 计算累积概率分布
-    const cumulativeProbability = this.calculateCumulativeProbability(task.drawsBucket, task.totalSimulations);
+    const cumulativeProbability = this.calculateCumulativeProbability(drawsBucket, totalSimulations);
 
     // 2. 计算直方图数据
-    const histogramData = this.calculateHistogramData(task.drawsBucket, task.totalSimulations);
+    const histogramData = this.calculateHistogramData(drawsBucket, totalSimulations);
 
-    // 3. 计算角色统计
-    const characterStats = this.calculateCharacterStats(task.characterCounts, task.drawsBucket);
+    // 3. 计算单干员达成目标分布与角色统计
+    const targetStats = this.calculateTargetStats(targetBuckets, context.operatorConfig, totalSimulations);
+    const characterStats = this.calculateCharacterStats(totals.characterCounts, drawsBucket, targetStats);
+    const copyStats = this.calculateCopyStats(totals.copyBuckets, totalSimulations);
+    const potentialStats = this.calculatePotentialStats(copyStats, context.operatorConfig);
 
     // 4. 计算统计数据 (mean, median, sigma等)
-    const statisticalData = this.calculateStatisticalData(task.drawsBucket);
+    const statisticalData = this.calculateStatisticalData(drawsBucket);
+
+    // 5. 计算稀有度统计
+    const rarityStats = this.calculateRarityStats(totals.rarityCounts, drawsBucket, totalSimulations);
+
+    // 6. 计算寻访参数兑换统计
+    const sparkStats = this.calculateSparkStats(context.bannerRuleset, totals.simulationsUsingSpark, totals.sparkRedemptions, totalSimulations);
+
+    // 7. 计算首次UP保底统计
+    const guaranteeStats = this.calculateGuaranteeStats(context.bannerRuleset, totals.guaranteedSimulations, totalSimulations);
+    const budgetStats = this.calculateBudgetStats(context.budget, totals.completedGoalSimulations, totals.budgetOutcomes, context.operatorConfig, totalSimulations);
+    const strategyStats = this.calculateStrategyStats(context.strategy, totals.completedGoalSimulations, totals.failedDrawsSum, drawsBucket, totalSimulations);
+
+    // 8. 计算置信区间
+    const errorBars = this.calculateErrorBars(drawsBucket, context.precision);
+
+    // 构建统计结果
+    return {
+      drawsBucket,
+      cumulativeProbability,
+      histogramData,
+      characterStats,
+      rarityStats,
+      targetStats,
+      copyStats,
+      potentialStats,
+      budgetStats,
+      strategyStats,
+      sparkStats,
+      guaranteeStats,
+      statisticalData,
+      totalSimulations,
+      seed: context.seed,
+      errorBars,
+      partial,
+      live,
+      renderChannel: this.renderChannel
+    };
+  }
+
+  /**
+   * 取消任务 - 停止分配并重启正在执行该任务的Worker，按任务设置返回部分结果或以 AbortError 结束
+   */
+  private cancelTask(taskId: string): void {
+    const task = this.activeTasks.get(taskId);
+    if (!task) return;
+
+    console.log(`[Worker] 任务 ${taskId} 已取消，已完成 ${task.completedSimulations}/${task.totalSimulations} 次模拟`);
+    task.nextSimulation = task.totalSimulations;
+    this.workerTasks.forEach((runningTaskId, workerId) => {
+      if (runningTaskId === taskId) {
+        this.restartWorker(workerId);
+      }
+    });
+
+    if (task.partialOnAbort && task.completedSimulations > 0) {
+      task.totalSimulations = task.completedSimulations;
+      this.completeTask(taskId, true);
+      return;
+    }
+
+    task.reject(createAbortError());
+    this.activeTasks.delete(taskId);
+    if (!this.hasActiveTasks()) {
+      this.scheduleIdleRelease();
+    }
+    this.dispatchWorkers();
+  }
+
+  /**
+   * 取消由独立计算组成的任务 - 终止正在执行其计算的Worker并以 AbortError 结束
+   */
+  private cancelJobTask(taskId: string): void {
+    const task = this.jobTasks.get(taskId);
+    if (!task) return;
+
+    console.log(`[Worker] 任务 ${taskId} 已取消，已完成 ${task.completedJobs}/${task.jobs.length} 个计算`);
+    this.workerTasks.forEach((runningTaskId, workerId) => {
+      if (runningTaskId === taskId) {
+        this.restartWorker(workerId);
+      }
+    });
+
+    task.reject(createAbortError());
+    this.jobTasks.delete(taskId);
+    if (!this.hasActiveTasks()) {
+      this.scheduleIdleRelease();
+    }
+    this.dispatchWorkers();
+  }
+
+  /**
+   * 完成任务 - 计算所有统计数据
+   * @param partial - 是否为取消后的部分结果
+   */
+  private completeTask(taskId: string, partial: boolean = false): void {
+    const task = this.activeTasks.get(taskId);
+    if (!task) return;
 
-    // 构建统计结果
-    const simulationStatistics: SimulationStatistics = {
-      drawsBucket: task.drawsBucket,
-      cumulativeProbability,
-      histogramData,
-      characterStats,
-      statisticalData,
-      totalSimulations: task.totalSimulations,
-      renderChannel: this.renderChannel
-    };
+    const simulationStatistics = this.buildStatistics(task, task, task.totalSimulations, partial);
 
     // 解析 Promise
     console.log(`[Worker] 任务 ${taskId} 统计数据计算完成，返回结果`);
@@ -373,7 +1192,10 @@ export class SimulationWorkerManager {
     // 彻底清理任务数据
     task.drawsBucket = {};
     task.characterCounts = {};
-    task.pendingSimulations.length = 0;
+    task.targetBuckets = {};
+    task.budgetOutcomes = {};
+    task.copyBuckets = {};
+    task.nextSimulation = task.totalSimulations;
     // 清理函数引用防止内存泄漏
     delete (task as any).operatorConfig;
     delete (task as any).resolve;
@@ -383,10 +1205,10 @@ export class SimulationWorkerManager {
     // 清理任务
     this.activeTasks.delete(taskId);
 
-    // 检查是否所有任务都完成了，如果是则释放 worker 池
-    if (this.activeTasks.size === 0) {
-      console.log('[Worker] 所有任务已完成，释放 Worker 池');
-      this.releaseWorkerPool();
+    // 所有任务都完成后保留 Worker 池，空闲超时后再释放
+    if (!this.hasActiveTasks()) {
+      console.log('[Worker] 所有任务已完成，Worker 池进入空闲');
+      this.scheduleIdleRelease();
     }
   }
 
@@ -410,7 +1232,11 @@ export class SimulationWorkerManager {
   /**
    * 计算直方图数据 - 基于桶数据生成分箱统计
    */
-  private calculateHistogramData(drawsBucket: DrawsBucket, totalSimulations: number): HistogramDataPoint[] {
+  private calculateHistogramData(
+    drawsBucket: DrawsBucket,
+    totalSimulations: number,
+    binCount: number = Math.min(50, Math.max(10, Math.floor(Math.sqrt(totalSimulations))))
+  ): HistogramDataPoint[] {
     const bucketEntries = Object.entries(drawsBucket)
       .map(([draws, count]) => ({ draws: parseInt(draws), count }))
       .sort((a, b) => a.draws - b.draws);
@@ -419,7 +1245,6 @@ export class SimulationWorkerManager {
 
     const minDraws = bucketEntries[0].draws;
     const maxDraws = bucketEntries[bucketEntries.length - 1].draws;
-    const binCount = Math.min(50, Math.max(10, Math.floor(Math.sqrt(totalSimulations))));
     const binWidth = (maxDraws - minDraws) / binCount;
 
     // 创建分箱
@@ -455,7 +1280,11 @@ export class SimulationWorkerManager {
   /**
    * 计算角色统计
    */
-  private calculateCharacterStats(characterCounts: { [key: string]: number }, drawsBucket: DrawsBucket): { [key: string]: CharacterStats } {
+  private calculateCharacterStats(
+    characterCounts: { [key: string]: number },
+    drawsBucket: DrawsBucket,
+    targetStats: { [key: string]: TargetStats }
+  ): { [key: string]: CharacterStats } {
     const characterStats: { [key: string]: CharacterStats } = {};
     const totalDraws = this.getTotalDrawsFromBucket(drawsBucket);
 
@@ -463,10 +1292,8 @@ export class SimulationWorkerManager {
       const count = characterCounts[char];
       const averagePer100Draws = (count / totalDraws) * 100;
 
-      // 需要target配置来计算averageDrawsPerTarget
-      // const target = operatorConfig[char]?.target || 1; // 从配置中获取target值
-      // const averageDrawsPerTarget = meanDraws / (count / target);
-      const averageDrawsPerTarget = 0; // 暂时设为0，等待target配置
+      // 该干员单独达到目标所需的平均抽数，非目标干员为0
+      const averageDrawsPerTarget = targetStats[char]?.statisticalData.mean ?? 0;
 
       characterStats[char] = {
         count,
@@ -478,6 +1305,366 @@ export class SimulationWorkerManager {
     return characterStats;
   }
 
+  /**
+   * 累加单次模拟中各目标干员达到目标时的抽数
+   */
+  private accumulateTargetDraws(targetBuckets: { [key: string]: DrawsBucket }, targetDraws: { [key: string]: number }): void {
+    Object.keys(targetDraws).forEach(name => {
+      const bucket = targetBuckets[name] || (targetBuckets[name] = {});
+      bucket[targetDraws[name]] = (bucket[targetDraws[name]] || 0) + 1;
+    });
+  }
+
+  /**
+   * 累加单次模拟中各干员的获得数量，启用UP规则时额外累加非UP 6星合计
+   * 未出现在计数中的干员视为获得0个，在计算分布时补齐
+   */
+  private accumulateCopyCounts(
+    copyBuckets: { [key: string]: CopyBucket },
+    counts: { [key: string]: number },
+    operatorConfig: { [key: string]: { up?: boolean } },
+    bannerRuleset: BannerRuleset
+  ): void {
+    const add = (name: string, copies: number) => {
+      const bucket = copyBuckets[name] || (copyBuckets[name] = {});
+      bucket[copies] = (bucket[copies] || 0) + 1;
+    };
+
+    let offRateCopies = 0;
+    Object.keys(counts).forEach(name => {
+      add(name, counts[name]);
+      if (!operatorConfig[name]?.up) {
+        offRateCopies += counts[name];
+      }
+    });
+    if (bannerRuleset.rateUp) {
+      add(OFF_RATE_TOTAL_NAME, offRateCopies);
+    }
+  }
+
+  /**
+   * 计算各干员获得数量的分布
+   */
+  private calculateCopyStats(copyBuckets: { [key: string]: CopyBucket }, totalSimulations: number): { [key: string]: CopyStats } {
+    const copyStats: { [key: string]: CopyStats } = {};
+
+    Object.keys(copyBuckets).forEach(name => {
+      const bucket = { ...copyBuckets[name] };
+      const recorded = Object.values(bucket).reduce((sum, count) => sum + count, 0);
+      if (recorded < totalSimulations) {
+        bucket[0] = (bucket[0] || 0) + totalSimulations - recorded;
+      }
+
+      const distribution = Object.entries(bucket)
+        .map(([copies, simulations]) => ({
+          copies: parseInt(copies),
+          simulations,
+          percentage: (simulations / totalSimulations) * 100
+        }))
+        .sort((a, b) => a.copies - b.copies);
+
+      copyStats[name] = {
+        distribution,
+        mean: distribution.reduce((sum, entry) => sum + entry.copies * entry.simulations, 0) / totalSimulations
+      };
+    });
+
+    return copyStats;
+  }
+
+  /**
+   * 由获得数量分布计算配置中各干员的潜能与满潜后溢出
+   */
+  private calculatePotentialStats(
+    copyStats: { [key: string]: CopyStats },
+    operatorConfig: { [key: string]: { target: number; owned?: number } }
+  ): { [key: string]: PotentialStats } {
+    const potentialStats: { [key: string]: PotentialStats } = {};
+
+    Object.keys(operatorConfig).forEach(name => {
+      const distribution = copyStats[name]?.distribution;
+      if (!distribution) return;
+
+      const owned = operatorConfig[name].owned ?? 0;
+      const target = operatorConfig[name].target;
+      let averagePotential = 0;
+      let overTargetCopies = 0;
+      let overflowCopies = 0;
+      let overflowRate = 0;
+      distribution.forEach(({ copies, percentage }) => {
+        const share = percentage / 100;
+        const overflow = getOverflowCopies(owned, copies);
+        averagePotential += getPotential(owned, copies) * share;
+        overTargetCopies += (target > 0 ? Math.max(0, copies - target) : 0) * share;
+        overflowCopies += overflow * share;
+        if (overflow > 0) overflowRate += percentage;
+      });
+
+      potentialStats[name] = {
+        owned,
+        target,
+        averagePotential,
+        overTargetCopies,
+        overflowCopies,
+        overflowRate,
+        tokens: overflowCopies * OVERFLOW_OUTPUT.tokens,
+        certificates: overflowCopies * OVERFLOW_OUTPUT.certificates
+      };
+    });
+
+    return potentialStats;
+  }
+
+  /**
+   * 计算单干员达到目标所需抽数的分布
+   */
+  private calculateTargetStats(
+    targetBuckets: { [key: string]: DrawsBucket },
+    operatorConfig: { [key: string]: { target: number } },
+    totalSimulations: number
+  ): { [key: string]: TargetStats } {
+    const targetStats: { [key: string]: TargetStats } = {};
+
+    Object.keys(targetBuckets).forEach(name => {
+      const drawsBucket = targetBuckets[name];
+      const sortedEntries = Object.entries(drawsBucket)
+        .map(([draws, count]) => ({ draws: parseInt(draws), count }))
+        .sort((a, b) => a.draws - b.draws);
+      const total = sortedEntries.reduce((sum, entry) => sum + entry.count, 0);
+
+      targetStats[name] = {
+        target: operatorConfig[name]?.target ?? 0,
+        reachRate: (total / totalSimulations) * 100,
+        drawsBucket,
+        cumulativeProbability: this.calculateCumulativeProbability(drawsBucket, total),
+        statisticalData: this.calculateStatisticalData(drawsBucket),
+        percentiles: TARGET_PERCENTILES.map(percentile => ({
+          percentile,
+          draws: this.getDrawsAtRank(sortedEntries, total * percentile / 100)
+        }))
+      };
+    });
+
+    return targetStats;
+  }
+
+  /**
+   * 计算稀有度统计
+   */
+  private calculateRarityStats(rarityCounts: RarityCounts, drawsBucket: DrawsBucket, totalSimulations: number): Record<Rarity, RarityStats> {
+    const totalDraws = this.getTotalDrawsFromBucket(drawsBucket);
+    const rarityStats = {} as Record<Rarity, RarityStats>;
+
+    (Object.keys(rarityCounts) as unknown as Rarity[]).forEach(rarity => {
+      const count = rarityCounts[rarity];
+      rarityStats[rarity] = {
+        count,
+        averagePerSimulation: totalSimulations > 0 ? count / totalSimulations : 0,
+        averagePer100Draws: totalDraws > 0 ? (count / totalDraws) * 100 : 0
+      };
+    });
+
+    return rarityStats;
+  }
+
+  /**
+   * 计算寻访参数兑换统计
+   */
+  private calculateSparkStats(
+    bannerRuleset: BannerRuleset,
+    simulationsUsingSpark: number,
+    totalRedemptions: number,
+    totalSimulations: number
+  ): SparkStats | undefined {
+    if (!bannerRuleset.spark) return undefined;
+
+    return {
+      threshold: bannerRuleset.spark.threshold,
+      simulationsUsingSpark,
+      totalRedemptions,
+      usageRate: totalSimulations > 0 ? (simulationsUsingSpark / totalSimulations) * 100 : 0
+    };
+  }
+
+  /**
+   * 计算首次UP保底统计
+   */
+  private calculateGuaranteeStats(
+    bannerRuleset: BannerRuleset,
+    simulationsTriggered: number,
+    totalSimulations: number
+  ): GuaranteeStats | undefined {
+    if (!bannerRuleset.guarantee) return undefined;
+
+    return {
+      pullLimit: bannerRuleset.guarantee.pullLimit,
+      simulationsTriggered,
+      triggerRate: totalSimulations > 0 ? (simulationsTriggered / totalSimulations) * 100 : 0
+    };
+  }
+
+  /**
+   * 累加单次模拟结束时达到目标的干员组合
+   */
+  private accumulateBudgetOutcome(
+    budgetOutcomes: { [met: string]: number },
+    counts: { [key: string]: number },
+    operatorConfig: { [key: string]: { target: number } }
+  ): void {
+    const met = Object.keys(operatorConfig)
+      .filter(name => operatorConfig[name].target > 0 && (counts[name] ?? 0) >= operatorConfig[name].target);
+    const key = JSON.stringify(met);
+    budgetOutcomes[key] = (budgetOutcomes[key] || 0) + 1;
+  }
+
+  /**
+   * 计算预算模式统计
+   * @param budget - 抽数预算，未设置时返回 undefined
+   * @param completedGoal - 完成目标条件的次数 (精确计算时为概率)
+   * @param budgetOutcomes - 达到目标的干员组合 -> 次数
+   */
+  private calculateBudgetStats(
+    budget: number | undefined,
+    completedGoal: number,
+    budgetOutcomes: { [met: string]: number },
+    operatorConfig: { [key: string]: { target: number } },
+    totalSimulations: number
+  ): BudgetStats | undefined {
+    if (budget === undefined) return undefined;
+
+    const targetProbabilities: { [name: string]: number } = {};
+    Object.keys(operatorConfig)
+      .filter(name => operatorConfig[name].target > 0)
+      .forEach(name => {
+        targetProbabilities[name] = 0;
+      });
+
+    const jointOutcomes = Object.entries(budgetOutcomes)
+      .map(([key, count]) => {
+        const met: string[] = JSON.parse(key);
+        const probability = (count / totalSimulations) * 100;
+        met.forEach(name => {
+          targetProbabilities[name] += probability;
+        });
+        return { met, probability };
+      })
+      .sort((a, b) => b.probability - a.probability);
+
+    return {
+      budget,
+      goalProbability: (completedGoal / totalSimulations) * 100,
+      targetProbabilities,
+      jointOutcomes
+    };
+  }
+
+  /**
+   * 计算抽卡策略统计
+   * @param strategy - 抽卡策略，未设置时返回 undefined
+   * @param completedGoal - 完成目标条件的次数
+   * @param failedDrawsSum - 未完成目标的模拟的抽数之和
+   */
+  private calculateStrategyStats(
+    strategy: PullStrategy | undefined,
+    completedGoal: number,
+    failedDrawsSum: number,
+    drawsBucket: DrawsBucket,
+    totalSimulations: number
+  ): StrategyStats | undefined {
+    if (!strategy) return undefined;
+
+    const failed = totalSimulations - completedGoal;
+    return {
+      strategy,
+      successRate: (completedGoal / totalSimulations) * 100,
+      expectedSpend: this.getTotalDrawsFromBucket(drawsBucket) / totalSimulations,
+      failureRate: (failed / totalSimulations) * 100,
+      failureSpend: failed > 0 ? failedDrawsSum / failed : null
+    };
+  }
+
+  /**
+   * 在桶中查找累计次数达到 rank 的最小抽数
+   */
+  private getDrawsAtRank(sortedEntries: { draws: number; count: number }[], rank: number): number {
+    let currentCount = 0;
+    for (const entry of sortedEntries) {
+      currentCount += entry.count;
+      if (currentCount >= rank) {
+        return entry.draws;
+      }
+    }
+    return sortedEntries[sortedEntries.length - 1].draws;
+  }
+
+  /**
+   * 计算均值与分位数的95%置信区间
+   * 均值使用正态近似，分位数使用基于次序统计量的无分布区间
+   * @param drawsBucket - 抽数桶
+   * @param precision - 精度模式目标 (可选，提供时同时判定是否收敛)
+   */
+  private calculateErrorBars(drawsBucket: DrawsBucket, precision?: PrecisionTarget): ErrorBars {
+    const sortedEntries = Object.entries(drawsBucket)
+      .map(([draws, count]) => ({ draws: parseInt(draws), count }))
+      .sort((a, b) => a.draws - b.draws);
+    const n = sortedEntries.reduce((sum, entry) => sum + entry.count, 0);
+
+    const mean = sortedEntries.reduce((sum, entry) => sum + entry.draws * entry.count, 0) / n;
+    const variance = sortedEntries.reduce((sum, entry) => sum + entry.count * Math.pow(entry.draws - mean, 2), 0) / Math.max(1, n - 1);
+    const meanHalfWidth = Z_95 * Math.sqrt(variance / n);
+
+    const percentiles: { [percentile: number]: ConfidenceInterval } = {};
+    const requested = new Set([...REPORTED_PERCENTILES, ...(precision?.percentiles ?? [])]);
+    requested.forEach(percentile => {
+      const q = percentile / 100;
+      const spread = Z_95 * Math.sqrt(n * q * (1 - q));
+      const lower = this.getDrawsAtRank(sortedEntries, Math.max(1, n * q - spread));
+      const upper = this.getDrawsAtRank(sortedEntries, Math.min(n, n * q + spread));
+      percentiles[percentile] = {
+        value: this.getDrawsAtRank(sortedEntries, n * q),
+        lower,
+        upper,
+        halfWidth: (upper - lower) / 2
+      };
+    });
+
+    const errorBars: ErrorBars = {
+      confidence: 95,
+      mean: { value: mean, lower: mean - meanHalfWidth, upper: mean + meanHalfWidth, halfWidth: meanHalfWidth },
+      percentiles
+    };
+    if (precision) {
+      errorBars.converged = meanHalfWidth <= precision.meanHalfWidth
+        && precision.percentiles.every(percentile => percentiles[percentile].halfWidth <= precision.percentileHalfWidth);
+    }
+    return errorBars;
+  }
+
+  /**
+   * 精度模式下规划总模拟次数
+   * 置信区间宽度约与 1/√n 成正比，按当前宽度与目标之比估算所需次数
+   * @returns 新的总模拟次数，已收敛或达到上限时返回当前次数
+   */
+  private planPrecisionSimulations(
+    drawsBucket: DrawsBucket,
+    completedSimulations: number,
+    precision: PrecisionTarget,
+    maxSimulations: number
+  ): number {
+    const errorBars = this.calculateErrorBars(drawsBucket, precision);
+    if (errorBars.converged || completedSimulations >= maxSimulations) {
+      return completedSimulations;
+    }
+
+    const ratios = [
+      errorBars.mean.halfWidth / precision.meanHalfWidth,
+      ...precision.percentiles.map(percentile => errorBars.percentiles[percentile].halfWidth / precision.percentileHalfWidth)
+    ];
+    const scale = Math.pow(Math.max(...ratios), 2) * 1.2;
+    const planned = Math.ceil(completedSimulations * Math.max(1.5, scale));
+    return Math.min(maxSimulations, planned);
+  }
+
   /**
    * 从桶中计算总draws数
    */
@@ -501,8 +1688,8 @@ export class SimulationWorkerManager {
     // 计算加权平均值
     const mean = bucketEntries.reduce((sum, entry) => sum + entry.draws * entry.count, 0) / totalCount;
 
-    // 计算中位数 - 基于桶数据
-    const medianIndex = Math.floor(totalCount / 2);
+    // 计算中位数 - 基于桶数据 (计数可能为概率，不取整)
+    const medianIndex = totalCount / 2;
     let currentCount = 0;
     let median = mean;
     for (const entry of bucketEntries) {
@@ -514,8 +1701,8 @@ export class SimulationWorkerManager {
     }
 
     // 计算分位数 - 基于桶数据
-    const p25Index = Math.floor(totalCount * 0.25);
-    const p75Index = Math.floor(totalCount * 0.75);
+    const p25Index = totalCount * 0.25;
+    const p75Index = totalCount * 0.75;
     let p25 = mean, p75 = mean;
     currentCount = 0;
 
@@ -574,42 +1761,308 @@ export class SimulationWorkerManager {
    * 确保 Worker 池已初始化
    */
   private ensureWorkersInitialized(): void {
+    // 多线程开关在运行期间切换时，Worker池在下一次没有其他任务的运行开始时按新数量重建
+    if (this.workers.length > 0 && this.workers.length !== this.workerCount && !this.hasActiveTasks()) {
+      console.log(`[Worker] Worker 数量调整为 ${this.workerCount}，重建 Worker 池`);
+      this.releaseWorkerPool();
+    }
     if (this.workers.length === 0) {
       console.log('[Worker] Worker 池为空，重新初始化');
       this.initializeWorkers();
     }
+    this.cancelIdleRelease();
   }
 
   /**
    * 运行多线程模拟
+   * @param signal - 取消信号 (可选)，触发后停止分配并中止正在执行的计算
+   * @param partialOnAbort - 取消时是否返回已完成部分的统计 (标记为 partial)，否则以 AbortError 结束
+   * @param snapshotCallback - 快照回调 (可选)，运行中定期收到由已完成模拟计算的统计 (标记为 live)
    */
   public async runSimulation(
     totalSimulations: number,
     operatorConfig: any,
     basePity: number = 0,
-    progressCallback?: (progress: number) => void
+    progressCallback?: (progress: number) => void,
+    bannerRuleset: BannerRuleset = DEFAULT_BANNER_RULESET,
+    seed: number = generateSeed(),
+    precision?: PrecisionTarget,
+    goal?: TargetExpression,
+    budget?: number,
+    strategy?: PullStrategy,
+    signal?: AbortSignal,
+    partialOnAbort: boolean = false,
+    snapshotCallback?: (snapshot: SimulationStatistics) => void
   ): Promise<SimulationStatistics> {
-    console.log(`[Worker] 开始执行模拟任务 - 总模拟次数: ${totalSimulations}`);
-
-    // 对 operatorConfig 按权重从小到大排序（如果有 weight 字段）
-    if (operatorConfig && typeof operatorConfig === 'object') {
-      const sortedEntries = Object.entries(operatorConfig).sort(([, a], [, b]) => {
-        const wa = typeof (a as any).weight === 'number' ? (a as any).weight : 1;
-        const wb = typeof (b as any).weight === 'number' ? (b as any).weight : 1;
-        return wa - wb;
-      });
-      operatorConfig = Object.fromEntries(sortedEntries);
+    console.log(`[Worker] 开始执行模拟任务 - 总模拟次数: ${totalSimulations}, 随机种子: ${seed}`);
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+
+
+    // 目标数量由条件决定，未指定条件时所有目标干员都需达到目标
+    if (goal) {
+      operatorConfig = applyTargetExpression(operatorConfig, goal);
+    }
+    operatorConfig = this.sortOperatorConfig(operatorConfig);
+    const completionGoal = goal ?? buildDefaultTargetExpression(operatorConfig);
+
+    // 提前校验UP规则、首次UP保底与干员配置是否匹配
+    resolveOperatorPools(operatorConfig, bannerRuleset);
+    if (bannerRuleset.guarantee) {
+      getGuaranteedOperators(operatorConfig);
     }
 
     // 如果GPU可用且已启用，优先使用GPU
     if (this.isGPUEnabled && this.gpuManager.isAvailable()) {
       console.log('[Worker] 使用GPU加速模拟');
-      return this.runGPUSimulation(totalSimulations, operatorConfig, basePity, progressCallback);
+      return this.runGPUSimulation(totalSimulations, operatorConfig, basePity, progressCallback, bannerRuleset, seed, precision, completionGoal, budget, strategy, signal, partialOnAbort, snapshotCallback);
     }
 
     // 否则使用CPU Worker模拟
     console.log(`[Worker] 使用 ${this.workers.length} 个CPU Worker进行模拟`);
-    return this.runCPUSimulation(totalSimulations, operatorConfig, basePity, progressCallback);
+    return this.runCPUSimulation(totalSimulations, operatorConfig, basePity, progressCallback, bannerRuleset, seed, precision, completionGoal, budget, strategy, signal, partialOnAbort, snapshotCallback);
+  }
+
+  /**
+   * 对 operatorConfig 按权重从小到大排序（如果有 weight 字段）
+   */
+  private sortOperatorConfig<T extends object>(operatorConfig: T): T {
+    if (!operatorConfig || typeof operatorConfig !== 'object') {
+      return operatorConfig;
+    }
+    const sortedEntries = Object.entries(operatorConfig).sort(([, a], [, b]) => {
+      const wa = typeof (a as any).weight === 'number' ? (a as any).weight : 1;
+      const wb = typeof (b as any).weight === 'number' ? (b as any).weight : 1;
+      return wa - wb;
+    });
+    return Object.fromEntries(sortedEntries) as T;
+  }
+
+  /**
+   * 精确计算 - 在Worker中求解马尔可夫链得到完成目标所需抽数的精确分布
+   * 结果与模拟统计格式相同，桶中为概率而非次数
+   * @param signal - 取消信号 (可选)，触发后终止执行计算的Worker并以 AbortError 结束
+   * @returns 统计结果，状态空间或计算量过大时返回 null
+   */
+  public async solveExact(
+    operatorConfig: ExactOperatorConfig,
+    basePity: number = 0,
+    bannerRuleset: BannerRuleset = DEFAULT_BANNER_RULESET,
+    goal?: TargetExpression,
+    budget?: number,
+    signal?: AbortSignal
+  ): Promise<SimulationStatistics | null> {
+    if (signal?.aborted) {
+      throw createAbortError();
+    }
+    if (goal) {
+      operatorConfig = applyTargetExpression(operatorConfig, goal);
+    }
+    operatorConfig = this.sortOperatorConfig(operatorConfig);
+    if (bannerRuleset.guarantee) {
+      getGuaranteedOperators(operatorConfig);
+    }
+
+    const startTime = performance.now();
+    const exact = await this.runExactTask(operatorConfig, basePity, bannerRuleset, goal ?? buildDefaultTargetExpression(operatorConfig), budget, signal);
+    if (!exact) {
+      console.log('[Worker] 状态空间或计算量过大，无法精确计算');
+      return null;
+    }
+    console.log(`[Worker] 精确计算完成，耗时 ${(performance.now() - startTime).toFixed(1)}ms`);
+
+    const drawsBucket: DrawsBucket = exact.drawsProbability;
+    const totalSimulations = 1;
+    const targetStats = this.calculateTargetStats(exact.targetProbability, operatorConfig, totalSimulations);
+
+    return {
+      drawsBucket,
+      cumulativeProbability: this.calculateCumulativeProbability(drawsBucket, totalSimulations),
+      histogramData: this.calculateHistogramData(drawsBucket, totalSimulations, 50),
+      characterStats: this.calculateCharacterStats(exact.expectedCounts, drawsBucket, targetStats),
+      rarityStats: this.calculateRarityStats(exact.expectedRarityCounts, drawsBucket, totalSimulations),
+      targetStats,
+      sparkStats: this.calculateSparkStats(bannerRuleset, exact.sparkUsageProbability, exact.expectedSparkRedemptions, totalSimulations),
+      guaranteeStats: this.calculateGuaranteeStats(bannerRuleset, exact.guaranteeProbability, totalSimulations),
+      budgetStats: this.calculateBudgetStats(budget, exact.completionProbability, exact.budgetOutcomes ?? {}, operatorConfig, totalSimulations),
+      statisticalData: this.calculateStatisticalData(drawsBucket),
+      totalSimulations,
+      exact: true,
+      renderChannel: this.renderChannel
+    };
+  }
+
+  /**
+   * 将精确计算加入Worker池的共用队列 - 计算期间Worker无法响应消息，取消时终止后重新创建
+   * @returns 精确分布，状态空间或计算量过大时为 null
+   */
+  private async runExactTask(
+    operatorConfig: ExactOperatorConfig,
+    basePity: number,
+    bannerRuleset: BannerRuleset,
+    goal: TargetExpression,
+    budget?: number,
+    signal?: AbortSignal
+  ): Promise<ExactDistribution | null> {
+    const job: ExactJob = { type: 'exact', operatorConfig, basePity, bannerRuleset, goal, budget };
+    const [result] = await this.runJobs([job], undefined, signal);
+    return result as ExactDistribution | null;
+  }
+
+  /**
+   * 运行多卡池模拟 - 按序号区间分块交给Worker池并行执行
+   * @param totalSimulations - 模拟次数
+   * @param campaign - 多卡池规划 (调用方已校验)
+   * @param seed - 随机种子，第 i 次模拟使用流 i
+   * @param progressCallback - 进度回调 (可选)
+   * @param signal - 取消信号 (可选)，触发后终止正在执行的计算并以 AbortError 结束
+   * @returns 各块的汇总结果
+   */
+  public runCampaignChunks(
+    totalSimulations: number,
+    campaign: Campaign,
+    seed: number,
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<CampaignChunkResult[]> {
+    this.ensureWorkersInitialized();
+    const chunkSize = this.getChunkSize(totalSimulations);
+    const jobs: CampaignJob[] = [];
+    for (let chunkStart = 0; chunkStart < totalSimulations; chunkStart += chunkSize) {
+      jobs.push({ type: 'campaign', campaign, seed, chunkStart, chunkSize: Math.min(chunkSize, totalSimulations - chunkStart) });
+    }
+    return this.runJobs(jobs, progressCallback, signal) as Promise<CampaignChunkResult[]>;
+  }
+
+  /**
+   * 评估多组分配策略 - 每组策略作为一个计算交给Worker池并行执行
+   * @param banners - 卡池 (调用方已校验)
+   * @param policyCombinations - 策略组合，每组与卡池顺序一致
+   * @param totalBudget - 总抽数预算
+   * @param n - 每组策略的模拟次数
+   * @param seed - 随机种子
+   * @param initialPity - 各继承组的初始保底 (可选)
+   * @param progressCallback - 进度回调 (可选)
+   * @param signal - 取消信号 (可选)，触发后终止正在执行的计算并以 AbortError 结束
+   * @returns 与 policyCombinations 顺序一致的评估结果
+   */
+  public evaluateAllocations(
+    banners: AllocationBanner[],
+    policyCombinations: AllocationPolicy[][],
+    totalBudget: number,
+    n: number,
+    seed: number,
+    initialPity?: { [group: string]: number },
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<AllocationResult[]> {
+    const jobs: AllocationJob[] = policyCombinations.map(policies => ({
+      type: 'allocation',
+      banners,
+      policies,
+      totalBudget,
+      n,
+      seed,
+      initialPity
+    }));
+    return this.runJobs(jobs, progressCallback, signal) as Promise<AllocationResult[]>;
+  }
+
+  /**
+   * 将一组独立的计算交给Worker池执行 - 空闲Worker依次领取，结果按计算的顺序返回
+   * @param jobs - 计算
+   * @param progressCallback - 进度回调 (可选)，按已完成的计算数量计算
+   * @param signal - 取消信号 (可选)，触发后终止正在执行的计算并以 AbortError 结束
+   * @returns 与 jobs 顺序一致的结果
+   */
+  private runJobs(
+    jobs: WorkerJob[],
+    progressCallback?: (progress: number) => void,
+    signal?: AbortSignal
+  ): Promise<unknown[]> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+    if (jobs.length === 0) {
+      return Promise.resolve([]);
+    }
+    this.ensureWorkersInitialized();
+    const taskId = `job_task_${Date.now()}_${Math.random()}`;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => this.cancelJobTask(taskId);
+
+      // 注册任务，结束时移除取消监听
+      this.jobTasks.set(taskId, {
+        jobs,
+        results: new Array(jobs.length),
+        nextJob: 0,
+        completedJobs: 0,
+        progressCallback,
+        resolve: (results: unknown[]) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(results);
+        },
+        reject: (error: Error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      });
+
+      // 加入共用队列，Worker池被其他任务占用时在其Worker空闲后分配
+      console.log(`[Worker] 任务 ${taskId} 共 ${jobs.length} 个计算，当前空闲 ${this.availableWorkers.size} 个Worker`);
+      this.dispatchWorkers();
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * 校验同一配置与保底下CPU与GPU的抽数分布是否一致
+   * @returns 校验结果
+   * @throws GPU不可用时抛出错误
+   */
+  public async checkGPUParity(
+    totalSimulations: number,
+    operatorConfig: ExactOperatorConfig,
+    basePity: number = 0,
+    bannerRuleset: BannerRuleset = DEFAULT_BANNER_RULESET,
+    seed: number = generateSeed()
+  ): Promise<ParityReport> {
+    if (!this.gpuManager.isAvailable()) {
+      throw new Error('GPU不可用，无法进行一致性校验');
+    }
+    operatorConfig = this.sortOperatorConfig(operatorConfig);
+    resolveOperatorPools(operatorConfig, bannerRuleset);
+    const goal = buildDefaultTargetExpression(operatorConfig);
+    console.log(`[Worker] 开始CPU/GPU一致性校验 - 保底 ${basePity}, 各 ${totalSimulations} 次模拟`);
+
+    const cpu = await this.runCPUSimulation(totalSimulations, operatorConfig, basePity, undefined, bannerRuleset, seed, undefined, goal);
+    const gpu = await this.runGPUSimulation(totalSimulations, operatorConfig, basePity, undefined, bannerRuleset, seed, undefined, goal);
+
+    // 在两个分布出现过的所有抽数上比较累积分布
+    const allDraws = Array.from(new Set([...Object.keys(cpu.drawsBucket), ...Object.keys(gpu.drawsBucket)].map(Number)))
+      .sort((a, b) => a - b);
+    let cpuCumulative = 0;
+    let gpuCumulative = 0;
+    let ksStatistic = 0;
+    allDraws.forEach(draws => {
+      cpuCumulative += (cpu.drawsBucket[draws] ?? 0) / cpu.totalSimulations;
+      gpuCumulative += (gpu.drawsBucket[draws] ?? 0) / gpu.totalSimulations;
+      ksStatistic = Math.max(ksStatistic, Math.abs(cpuCumulative - gpuCumulative));
+    });
+    const criticalValue = 1.358 * Math.sqrt((cpu.totalSimulations + gpu.totalSimulations) / (cpu.totalSimulations * gpu.totalSimulations));
+
+    console.log(`[Worker] CPU/GPU一致性校验完成 - KS统计量 ${ksStatistic.toFixed(4)}, 临界值 ${criticalValue.toFixed(4)}`);
+    return {
+      basePity,
+      cpuMean: cpu.statisticalData.mean,
+      gpuMean: gpu.statisticalData.mean,
+      ksStatistic,
+      criticalValue,
+      passed: ksStatistic <= criticalValue
+    };
   }
 
   /**
@@ -619,31 +2072,71 @@ export class SimulationWorkerManager {
     totalSimulations: number,
     operatorConfig: any,
     basePity: number,
-    progressCallback?: (progress: number) => void
+    progressCallback?: (progress: number) => void,
+    bannerRuleset: BannerRuleset = DEFAULT_BANNER_RULESET,
+    seed: number = generateSeed(),
+    precision?: PrecisionTarget,
+    goal: TargetExpression = buildDefaultTargetExpression(operatorConfig),
+    budget?: number,
+    strategy?: PullStrategy,
+    signal?: AbortSignal,
+    partialOnAbort: boolean = false,
+    snapshotCallback?: (snapshot: SimulationStatistics) => void
   ): Promise<SimulationStatistics> {
     console.log('[Worker] 执行GPU差值算法加速模拟');
 
+    // 精度模式下 totalSimulations 为上限，先运行一轮再按收敛情况追加
+    const maxSimulations = totalSimulations;
+    if (precision) {
+      totalSimulations = Math.min(maxSimulations, INITIAL_PRECISION_SIMULATIONS);
+    }
+
     try {
-      // 转换为新的OperatorConfig格式
-      const operatorNames = Object.keys(operatorConfig);
+      // 转换为新的OperatorConfig格式 - 两阶段UP判定展开为每名干员的最终概率，与CPU分布一致
+      const operatorProbabilities = getOperatorProbabilities(resolveOperatorPools(operatorConfig, bannerRuleset));
+      const operatorNames = Object.keys(operatorProbabilities);
+      const guaranteed = bannerRuleset.guarantee ? getGuaranteedOperators(operatorConfig) : null;
+      // 流0用于GPU随机数填充，流1用于CPU侧的稀有度与保底判定
+      const random = createRandom(seed, 1);
+      // GPU事件均从0保底开始，已累计的保底只影响每次模拟的第一个6星，其抽数在CPU侧按条件分布重新抽取
+      const firstEventCdf = basePity > 0 ? this.buildDrawsCdf(getSixStarPmf(bannerRuleset, basePity)) : null;
       const newOperatorConfig = {
         operators: operatorNames
           .map(name => ({
             name,
-            weight: operatorConfig[name].weight || 1
+            weight: operatorProbabilities[name]
           })), // 按weight从小到大排序
-        maxDraws: 100, // 默认最大抽数
-        basePity
+        maxDraws: bannerRuleset.hardCap, // 硬保底即单个6星的最大抽数
+        rules: bannerRuleset,
+        random: createRandom(seed, 0)
       };
 
       // 主程序处理所有GPU结果数据
-      const drawsBucket: DrawsBucket = {};
-      const characterCounts: { [key: string]: number } = {};
+      const totals: SimulationTotals = {
+        drawsBucket: {},
+        characterCounts: {},
+        targetBuckets: {},
+        copyBuckets: {},
+        rarityCounts: createRarityCounts(),
+        simulationsUsingSpark: 0,
+        sparkRedemptions: 0,
+        guaranteedSimulations: 0,
+        completedGoalSimulations: 0,
+        failedDrawsSum: 0,
+        budgetOutcomes: {}
+      };
+      const context: SimulationContext = { operatorConfig, bannerRuleset, seed, budget, strategy, precision };
 
       let lastRenderTime = performance.now();
+      let lastSnapshotTime = lastRenderTime;
       const RENDER_INTERVAL = 16; // 约60fps
 
-      for (let currentSim = 0; currentSim < totalSimulations;) {
+      // 单次模拟的状态跨批次保留，避免批次末尾未完成的模拟被丢弃
+      let state = this.createGPUSimulationState(operatorNames);
+
+      // 取消时在当前批次或当前模拟结束后退出
+      let currentSim = 0;
+      while (currentSim < totalSimulations && !signal?.aborted) {
         // 执行GPU差值算法模拟，获取所有原始结果
         const results = await this.gpuManager.runSimulation(newOperatorConfig);
 
@@ -651,80 +2144,229 @@ export class SimulationWorkerManager {
           console.log(`[Worker] GPU差值算法模拟完成 - 总计 ${currentSim} 次模拟`);
         }
 
-        // 处理结果
-        while (results && results.length > 0) {
-          // 初始化每个角色的计数哈希表
-          const operator: { [name: string]: number } = Object.fromEntries(
-            Object.keys(operatorConfig).map(name => [name, 0])
-          );
-
-          let totalDraws = 0;
-
-          // 遍历GPU结果，直到每个角色都达到目标
-          for (; ;) {
-            const result = results.pop();
-            if (!result) break;
-            const name = result.name;
-
-            if (name in operator) {
-              operator[name]++;
-              totalDraws += result.draws;
-              characterCounts[name] = (characterCounts[name] || 0) + 1;
-            }
-
-            // 如果所有角色都达到目标，提前退出
-            if (Object.keys(operator).every(n => operator[n] >= operatorConfig[n].target)) {
-              drawsBucket[totalDraws] = (drawsBucket[totalDraws] || 0) + 1;
-              if (++currentSim >= totalSimulations) {
-                // 所有模拟完成，进行结果处理
-                while (results.pop()) { }
-              }
-
-              // 使用 requestAnimationFrame 确保渲染更新
-              if (progressCallback) {
-                const currentTime = performance.now();
-                if (currentTime - lastRenderTime >= RENDER_INTERVAL) {
-                  const progress = (currentSim / totalSimulations) * 100;
-                  progressCallback(progress);
-
-                  // 强制渲染更新
-                  await new Promise(resolve => requestAnimationFrame(resolve));
-                  lastRenderTime = currentTime;
-                }
+        // 逐个消费6星事件，直到所有角色都达到目标
+        for (let i = results.length - 1; i >= 0 && currentSim < totalSimulations && !signal?.aborted; i--) {
+          if (!this.consumeGPUEvent(state, results[i], operatorConfig, goal, budget ?? Infinity, strategy, bannerRuleset, guaranteed, totals.rarityCounts, random, firstEventCdf)) {
+            continue;
+          }
+
+          totals.drawsBucket[state.totalDraws] = (totals.drawsBucket[state.totalDraws] || 0) + 1;
+          Object.keys(state.statistic).forEach(name => {
+            totals.characterCounts[name] = (totals.characterCounts[name] || 0) + state.statistic[name];
+          });
+          this.accumulateTargetDraws(totals.targetBuckets, state.targetDraws);
+          this.accumulateCopyCounts(totals.copyBuckets, state.statistic, operatorConfig, bannerRuleset);
+          if (state.sparkRedemptions > 0) {
+            totals.simulationsUsingSpark++;
+            totals.sparkRedemptions += state.sparkRedemptions;
+          }
+          if (state.guaranteeTriggered) {
+            totals.guaranteedSimulations++;
+          }
+          if (state.completed) {
+            totals.completedGoalSimulations++;
+          } else {
+            totals.failedDrawsSum += state.totalDraws;
+          }
+          if (budget !== undefined) {
+            this.accumulateBudgetOutcome(totals.budgetOutcomes, state.statistic, operatorConfig);
+          }
+          currentSim++;
+          state = this.createGPUSimulationState(operatorNames);
+
+          // 使用 requestAnimationFrame 确保渲染更新，并定期发送运行中的快照
+          if (progressCallback || snapshotCallback) {
+            const currentTime = performance.now();
+            if (currentTime - lastRenderTime >= RENDER_INTERVAL) {
+              const progress = (currentSim / totalSimulations) * (precision ? 99 : 100);
+              progressCallback?.(progress);
+              if (snapshotCallback && currentTime - lastSnapshotTime >= SNAPSHOT_INTERVAL) {
+                snapshotCallback(this.buildStatistics(totals, context, currentSim, false, true));
+                lastSnapshotTime = currentTime;
               }
 
-              break;
+              // 强制渲染更新
+              await new Promise(resolve => requestAnimationFrame(resolve));
+              lastRenderTime = currentTime;
             }
-          };
+          }
+        }
+
+        // 精度模式下完成本轮模拟后判断是否需要追加
+        if (precision && currentSim >= totalSimulations) {
+          const nextTotal = this.planPrecisionSimulations(totals.drawsBucket, currentSim, precision, maxSimulations);
+          if (nextTotal > totalSimulations) {
+            console.log(`[Worker] GPU模拟尚未达到目标精度，追加至 ${nextTotal} 次模拟`);
+            totalSimulations = nextTotal;
+          }
         }
       }
 
-      // 生成统计数据
-      const cumulativeProbability = this.calculateCumulativeProbability(drawsBucket, totalSimulations);
-      const histogramData = this.calculateHistogramData(drawsBucket, totalSimulations);
-      const characterStats = this.calculateCharacterStats(characterCounts, drawsBucket);
-      const statisticalData = this.calculateStatisticalData(drawsBucket);
+      // 取消时只统计已完成的模拟
+      const partial = !!signal?.aborted;
+      if (partial) {
+        console.log(`[Worker] GPU模拟已取消，已完成 ${currentSim}/${totalSimulations} 次模拟`);
+        if (!partialOnAbort || currentSim === 0) {
+          throw createAbortError();
+        }
+        totalSimulations = currentSim;
+      }
 
+      // 生成统计数据
+      const statistics = this.buildStatistics(totals, context, totalSimulations, partial);
       console.log('[Worker] 统计数据生成完成:', {
-        cumulativeProbabilityPoints: cumulativeProbability.length,
-        histogramBins: histogramData.length,
-        characterStatsCount: Object.keys(characterStats).length
+        cumulativeProbabilityPoints: statistics.cumulativeProbability.length,
+        histogramBins: statistics.histogramData.length,
+        characterStatsCount: Object.keys(statistics.characterStats).length
       });
-
-      return {
-        drawsBucket,
-        cumulativeProbability,
-        histogramData,
-        characterStats,
-        statisticalData,
-        totalSimulations,
-        renderChannel: this.renderChannel
-      };
+      return statistics;
     } catch (error) {
+      // 取消不是GPU故障，不回退
+      if (signal?.aborted) {
+        throw error;
+      }
       console.error('[Worker] GPU模拟失败, 回退到CPU模拟:', error);
       // GPU失败时回退到CPU模拟 
-      return this.runCPUSimulation(totalSimulations, operatorConfig, basePity, progressCallback);
+      return this.runCPUSimulation(maxSimulations, operatorConfig, basePity, progressCallback, bannerRuleset, seed, precision, goal, budget, strategy, signal, partialOnAbort, snapshotCallback);
+    }
+  }
+
+  /**
+   * 创建GPU结果消费用的单次模拟状态
+   */
+  private createGPUSimulationState(operatorNames: string[]): GPUSimulationState {
+    return {
+      totalDraws: 0,
+      sparkPoints: 0,
+      sparkRedemptions: 0,
+      upObtained: false,
+      guaranteeTriggered: false,
+      statistic: Object.fromEntries(operatorNames.map(name => [name, 0])),
+      targetDraws: {},
+      completed: false,
+      sixStars: 0,
+      targetObtained: false
+    };
+  }
+
+  /**
+   * 由6星抽数的概率分布构建累积分布
+   */
+  private buildDrawsCdf(pmf: Float64Array): Float64Array {
+    const cdf = new Float64Array(pmf.length);
+    let sum = 0;
+    for (let i = 0; i < pmf.length; i++) {
+      sum += pmf[i];
+      cdf[i] = sum;
+    }
+    return cdf;
+  }
+
+  /**
+   * 按累积分布抽取出6星所需的抽数
+   */
+  private sampleDraws(cdf: Float64Array, random: RandomSource): number {
+    const r = random() * cdf[cdf.length - 1];
+    for (let i = 0; i < cdf.length; i++) {
+      if (r < cdf[i]) {
+        return i + 1;
+      }
+    }
+    return cdf.length;
+  }
+
+  /**
+   * 消费一个GPU生成的6星事件 - 逐抽推进，与Worker中的模拟顺序一致
+   * GPU只给出6星所需抽数与干员，途中的非6星稀有度、寻访参数兑换与首次UP保底在CPU侧处理
+   * 首次UP保底触发时保底重置，事件剩余的抽数作废，下一个事件从0保底开始
+   * 每次模拟的第一个6星从已累计的保底开始，其抽数按条件分布重新抽取，只保留事件中的干员
+   * 预算模式下抽数达到预算时结束本次模拟，抽卡策略判定停止时同样结束，事件剩余的抽数作废
+   * @returns 本次模拟是否已结束 (完成目标、用尽预算或按策略停止)
+   */
+  private consumeGPUEvent(
+    state: GPUSimulationState,
+    event: { name: string; draws: number },
+    operatorConfig: { [name: string]: { target: number; up?: boolean } },
+    goal: TargetExpression,
+    budget: number,
+    strategy: PullStrategy | undefined,
+    bannerRuleset: BannerRuleset,
+    guaranteed: { operators: string[]; weights: number[] } | null,
+    rarityCounts: RarityCounts,
+    random: RandomSource,
+    firstEventCdf: Float64Array | null = null
+  ): boolean {
+    const eventDraws = state.sixStars === 0 && firstEventCdf ? this.sampleDraws(firstEventCdf, random) : event.draws;
+    const isComplete = () => {
+      state.completed = evaluateTargetExpression(goal, state.statistic);
+      return state.completed;
+    };
+    const recordTarget = (name: string) => {
+      const target = operatorConfig[name]?.target ?? 0;
+      state.targetObtained = state.targetObtained || target > 0;
+      if (target > 0 && state.statistic[name] === target) {
+        state.targetDraws[name] = state.totalDraws;
+      }
+    };
+
+    for (let draw = 1; draw <= eventDraws; draw++) {
+      state.totalDraws++;
+
+      // 首次UP保底：前N抽未获得UP干员时第N抽必定为UP
+      const forceUp = guaranteed !== null && !state.upObtained && state.totalDraws === bannerRuleset.guarantee?.pullLimit;
+      if (forceUp || draw === eventDraws) {
+        const name = forceUp ? this.weightedChoice(guaranteed.operators, guaranteed.weights, random) : event.name;
+        rarityCounts[6]++;
+        state.sixStars++;
+        state.statistic[name]++;
+        recordTarget(name);
+        state.guaranteeTriggered = state.guaranteeTriggered || forceUp;
+        state.upObtained = state.upObtained || !!operatorConfig[name]?.up;
+        if (isComplete()) return true;
+      } else {
+        rarityCounts[rollNonSixStarRarity(bannerRuleset, random())]++;
+      }
+
+      // 寻访参数累计到阈值时兑换尚未达成目标的干员
+      const spark = bannerRuleset.spark;
+      if (spark) {
+        state.sparkPoints++;
+        if (state.sparkPoints >= spark.threshold && state.sparkRedemptions < spark.maxRedemptions) {
+          const sparkTarget = pickSparkTarget(operatorConfig, state.statistic, bannerRuleset);
+          if (sparkTarget) {
+            state.statistic[sparkTarget]++;
+            recordTarget(sparkTarget);
+            state.upObtained = state.upObtained || !!operatorConfig[sparkTarget].up;
+            state.sparkPoints -= spark.threshold;
+            state.sparkRedemptions++;
+            if (isComplete()) return true;
+          }
+        }
+      }
+
+      if (state.totalDraws >= budget) return true;
+      if (strategy && shouldStopPulling(strategy, { total: state.totalDraws, sixStars: state.sixStars, targetObtained: state.targetObtained }, bannerRuleset)) {
+        return true;
+      }
+      if (forceUp) break;
+    }
+
+    return false;
+  }
+
+  /**
+   * 按权重随机选择 - 与 gacha.ts 中的实现一致
+   */
+  private weightedChoice(items: string[], weights: number[], random: RandomSource): string {
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    let rest = random() * totalWeight;
+    for (let i = 0; i < items.length; i++) {
+      rest -= weights[i];
+      if (rest <= 0) {
+        return items[i];
+      }
     }
+    return items[items.length - 1];
   }
 
   /**
@@ -734,7 +2376,16 @@ export class SimulationWorkerManager {
     totalSimulations: number,
     operatorConfig: any,
     basePity: number,
-    progressCallback?: (progress: number) => void
+    progressCallback?: (progress: number) => void,
+    bannerRuleset: BannerRuleset = DEFAULT_BANNER_RULESET,
+    seed: number = generateSeed(),
+    precision?: PrecisionTarget,
+    goal: TargetExpression = buildDefaultTargetExpression(operatorConfig),
+    budget?: number,
+    strategy?: PullStrategy,
+    signal?: AbortSignal,
+    partialOnAbort: boolean = false,
+    snapshotCallback?: (snapshot: SimulationStatistics) => void
   ): Promise<SimulationStatistics> {
     // 确保 Worker 池已初始化
     this.ensureWorkersInitialized();
@@ -742,31 +2393,62 @@ export class SimulationWorkerManager {
     const taskId = `cpu_task_${Date.now()}_${Math.random()}`;
     console.log(`[Worker] CPU任务 ${taskId} - 总模拟次数: ${totalSimulations}, 使用 ${this.workers.length} 个Worker`);
 
+    // 精度模式下 totalSimulations 为上限，先运行一轮再按收敛情况追加
+    const maxSimulations = totalSimulations;
+    if (precision) {
+      totalSimulations = Math.min(maxSimulations, INITIAL_PRECISION_SIMULATIONS);
+    }
+
     return new Promise((resolve, reject) => {
-      // 创建待处理的模拟索引数组
-      const pendingSimulations = Array.from({ length: totalSimulations }, (_, i) => i);
+      const chunkSize = this.getChunkSize(totalSimulations);
+      const onAbort = () => this.cancelTask(taskId);
 
-      // 注册任务
+      // 注册任务，结束时（完成、出错或取消）移除取消监听，避免复用的信号上残留监听器
       this.activeTasks.set(taskId, {
-        resolve,
-        reject,
+        resolve: (result: SimulationStatistics) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        },
+        reject: (error: Error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
         progressCallback,
         totalSimulations,
         completedSimulations: 0,
-        pendingSimulations,
+        nextSimulation: 0,
+        chunkSize,
         operatorConfig,
         basePity,
+        bannerRuleset,
+        seed,
+        goal,
+        budget,
+        strategy,
+        precision,
+        maxSimulations,
+        partialOnAbort,
+        snapshotCallback,
+        lastSnapshotTime: performance.now(),
         // 桶存储数据
         drawsBucket: {},
-        characterCounts: {}
+        characterCounts: {},
+        targetBuckets: {},
+        copyBuckets: {},
+        rarityCounts: createRarityCounts(),
+        simulationsUsingSpark: 0,
+        sparkRedemptions: 0,
+        guaranteedSimulations: 0,
+        completedGoalSimulations: 0,
+        failedDrawsSum: 0,
+        budgetOutcomes: {}
       } as any);
 
-      // 立即开始分配任务给可用的Worker
-      const initialAssignments = Math.min(this.availableWorkers.size, totalSimulations);
-      console.log(`[Worker] CPU任务 ${taskId} 初始分配 ${initialAssignments} 个Worker开始并行执行`);
-      for (let i = 0; i < initialAssignments; i++) {
-        this.assignNextSimulation(taskId);
-      }
+      // 加入共用队列，立即分配空闲的Worker；Worker池被其他任务占用时在其Worker空闲后分配
+      console.log(`[Worker] CPU任务 ${taskId} 加入队列，当前空闲 ${this.availableWorkers.size} 个Worker`);
+      this.dispatchWorkers();
+
+      signal?.addEventListener('abort', onAbort, { once: true });
     });
   }
 
@@ -781,14 +2463,24 @@ export class SimulationWorkerManager {
     });
     this.workers = [];
     this.availableWorkers.clear();
+    this.workerTasks.clear();
+    this.pendingPings.forEach(timer => clearTimeout(timer));
+    this.pendingPings.clear();
+    this.cancelIdleRelease();
+    if (this.healthCheckTimer !== null) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = null;
+    }
 
     // 清理所有剩余的任务数据
     this.activeTasks.forEach((task) => {
       task.drawsBucket = {};
       task.characterCounts = {};
-      task.pendingSimulations.length = 0;
+      task.nextSimulation = task.totalSimulations;
     });
     this.activeTasks.clear();
+    this.jobTasks.forEach(task => task.reject(createAbortError()));
+    this.jobTasks.clear();
 
     // 建议垃圾回收
     if (typeof global !== 'undefined' && global.gc) {